@@ -0,0 +1,168 @@
+import { describe, test, expect } from "bun:test";
+import { gzipSync, deflateSync, brotliCompressSync } from "node:zlib";
+import { getMediaType, findBodyParser, registerBodyParser, parseXml, parseContentEncoding, decompressBody } from "./bodyParser";
+import { StatusError } from "./common";
+
+function createBody(text: string) {
+  return new Response(text);
+}
+
+describe("getMediaType", () => {
+  test("파라미터를 제외하고 소문자로 반환", () => {
+    expect(getMediaType("Application/JSON; charset=utf-8")).toBe("application/json");
+    expect(getMediaType("")).toBe("");
+  });
+});
+
+describe("findBodyParser", () => {
+  test("내장 파서 선택", async () => {
+    const vendorJson = findBodyParser("application/vnd.github+json");
+    const mergePatch = findBodyParser("application/merge-patch+json");
+    const text = findBodyParser("text/plain");
+
+    expect(await vendorJson!(createBody('{"action":"opened"}'), "application/vnd.github+json")).toEqual({ action: "opened" });
+    expect(await mergePatch!(createBody('{"name":null}'), "application/merge-patch+json")).toEqual({ name: null });
+    expect(await text!(createBody("hello"), "text/plain")).toEqual({ text: "hello" });
+  });
+
+  test("지원하지 않는 형식은 undefined", () => {
+    expect(findBodyParser("application/octet-stream")).toBeUndefined();
+    expect(findBodyParser("text/csv")).toBeUndefined();
+  });
+
+  test("NDJSON 파싱", async () => {
+    const parser = findBodyParser("application/x-ndjson")!;
+
+    expect(await parser(createBody('{"a":1}\n\n{"a":2}\r\n'), "application/x-ndjson")).toEqual({ items: [{ a: 1 }, { a: 2 }] });
+    const error = await Promise.resolve(parser(createBody('{"a":1}\n{oops'), "application/x-ndjson")).catch((e) => e);
+    expect(error).toBeInstanceOf(StatusError);
+    expect(error.status).toBe(400);
+  });
+
+  test("잘못된 JSON, XML은 400 StatusError", async () => {
+    const json = await Promise.resolve(findBodyParser("application/problem+json")!(createBody("{"), "")).catch((e) => e);
+    const xml = await Promise.resolve(findBodyParser("application/xml")!(createBody("<a><b></a>"), "")).catch((e) => e);
+
+    expect(json.message).toBe("Invalid JSON format in request body");
+    expect(xml.message).toBe("Invalid XML format in request body");
+    expect(xml.status).toBe(400);
+  });
+
+  test("등록한 파서와 호출 시 전달한 파서가 우선", async () => {
+    const unregister = registerBodyParser("text/*", () => ({ registered: true }));
+    try {
+      expect(await findBodyParser("text/plain")!(createBody(""), "text/plain")).toEqual({ registered: true });
+      expect(await findBodyParser("text/csv")!(createBody(""), "text/csv")).toEqual({ registered: true });
+
+      const local = findBodyParser("text/plain", [{ match: /^text\/plain$/, parse: () => ({ local: true }) }]);
+      expect(await local!(createBody(""), "text/plain")).toEqual({ local: true });
+      expect(findBodyParser("text/plain", [], { builtIn: false })).toBeDefined();
+    } finally {
+      unregister();
+    }
+
+    expect(findBodyParser("text/csv")).toBeUndefined();
+    expect(findBodyParser("text/plain", [], { builtIn: false })).toBeUndefined();
+  });
+});
+
+describe("parseContentEncoding", () => {
+  test("인코딩을 소문자로 나누고 identity는 제외", () => {
+    expect(parseContentEncoding("GZIP, br")).toEqual(["gzip", "br"]);
+    expect(parseContentEncoding("identity")).toEqual([]);
+    expect(parseContentEncoding(undefined)).toEqual([]);
+  });
+});
+
+describe("decompressBody", () => {
+  const text = JSON.stringify({ name: "John", tags: ["a", "b"] });
+  const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+  test("gzip, deflate, br 압축 해제", async () => {
+    expect(decode(await decompressBody(gzipSync(text), "gzip"))).toBe(text);
+    expect(decode(await decompressBody(gzipSync(text), "x-gzip"))).toBe(text);
+    expect(decode(await decompressBody(deflateSync(text), "deflate"))).toBe(text);
+    expect(decode(await decompressBody(brotliCompressSync(text), "br"))).toBe(text);
+  });
+
+  test("여러 인코딩은 역순으로 해제", async () => {
+    const bytes = brotliCompressSync(gzipSync(text));
+
+    expect(decode(await decompressBody(bytes, "gzip, br"))).toBe(text);
+  });
+
+  test("압축 해제 크기가 제한을 넘으면 413", async () => {
+    const bomb = gzipSync(Buffer.alloc(100_000, 0));
+
+    const error: any = await decompressBody(bomb, "gzip", 1000).catch((e) => e);
+
+    expect(error).toBeInstanceOf(StatusError);
+    expect(error.status).toBe(413);
+    expect(error.message).toBe("Decompressed request body exceeds the maximum size of 1000 bytes");
+  });
+
+  test("지원하지 않는 인코딩은 415, 손상된 데이터는 400", async () => {
+    const unsupported: any = await decompressBody(gzipSync(text), "compress").catch((e) => e);
+    const corrupted: any = await decompressBody(new TextEncoder().encode(text), "gzip").catch((e) => e);
+
+    expect(unsupported.status).toBe(415);
+    expect(unsupported.message).toBe("Unsupported content encoding 'compress'");
+    expect(corrupted.status).toBe(400);
+    expect(corrupted.message).toBe("Invalid gzip encoded request body");
+  });
+});
+
+describe("parseXml", () => {
+  test("루트 요소의 자식을 객체로 변환", () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+      <!-- webhook -->
+      <xml>
+        <ToUserName><![CDATA[toUser]]></ToUserName>
+        <CreateTime>1348831860</CreateTime>
+        <Content>a &amp; b &#xAC00;</Content>
+      </xml>`;
+
+    expect(parseXml(xml)).toEqual({ ToUserName: "toUser", CreateTime: "1348831860", Content: "a & b 가" });
+  });
+
+  test("반복 요소는 배열, 속성은 @ 키", () => {
+    const xml = `<order id="1" status='paid'><item sku="A">apple</item><item>banana</item><empty/></order>`;
+
+    expect(parseXml(xml)).toEqual({
+      "@id": "1",
+      "@status": "paid",
+      item: [{ "@sku": "A", "#text": "apple" }, "banana"],
+      empty: ""
+    });
+  });
+
+  test("반복 요소가 많아도 배열을 복사하지 않고 선형 시간에 파싱", () => {
+    const xml = `<list>${"<a/>".repeat(40_000)}<a>last</a></list>`;
+
+    const startedAt = performance.now();
+    const result = parseXml(xml);
+    const elapsed = performance.now() - startedAt;
+
+    expect(result.a).toHaveLength(40_001);
+    expect(result.a[40_000]).toBe("last");
+    expect(elapsed).toBeLessThan(1000);
+  });
+
+  test("텍스트만 있는 루트", () => {
+    expect(parseXml("<message>hello</message>")).toEqual({ "#text": "hello" });
+  });
+
+  test("잘못된 XML과 DOCTYPE은 거부", () => {
+    expect(() => parseXml("<a><b></a>")).toThrow();
+    expect(() => parseXml("<a>")).toThrow();
+    expect(() => parseXml("<a/><b/>")).toThrow();
+    expect(() => parseXml("text")).toThrow();
+    expect(() => parseXml('<!DOCTYPE a [<!ENTITY x "y">]><a>&x;</a>')).toThrow("DOCTYPE is not allowed");
+  });
+
+  test("__proto__ 요소가 프로토타입을 오염시키지 않음", () => {
+    const result = parseXml("<a><__proto__><polluted>yes</polluted></__proto__></a>");
+    expect(({} as any).polluted).toBeUndefined();
+    expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+  });
+});
@@ -0,0 +1,333 @@
+import { promisify } from "node:util";
+import { brotliDecompress, gunzip, inflate, type InputType, type ZlibOptions } from "node:zlib";
+import { type MutableObject } from "./common";
+import { createCodedError } from "./errorMessages";
+
+// Content-Type별 요청 본문 파서
+// JSON과 form(urlencoded, multipart)은 parseParams가 직접 처리하고,
+// 그 외 형식은 여기 등록된 파서로 처리합니다. registerBodyParser로 직접 파서를 추가할 수 있습니다.
+// 압축된 본문(Content-Encoding)은 파싱 전에 decompressBody로 풉니다.
+
+/**
+ * 파서가 읽을 수 있는 요청 본문 (HonoRequest, Request, Response 모두 만족)
+ */
+export type BodySource = {
+  text(): Promise<string>;
+  json(): Promise<any>;
+  arrayBuffer(): Promise<ArrayBuffer>;
+};
+
+/**
+ * 본문 파서. 반환한 객체는 다른 파라미터와 병합됩니다.
+ */
+export type BodyParser = (body: BodySource, mediaType: string) => Promise<MutableObject> | MutableObject;
+
+/**
+ * 파서를 적용할 미디어 타입 조건
+ * - 문자열: 정확히 일치 (예: "application/xml"), "*"를 와일드카드로 사용 가능 (예: "application/*+json")
+ * - RegExp: 미디어 타입에 대해 test
+ * - 함수: true를 반환하면 적용
+ */
+export type BodyParserMatcher = string | RegExp | ((mediaType: string) => boolean);
+
+export type BodyParserEntry = {
+  match: BodyParserMatcher;
+  parse: BodyParser;
+};
+
+/**
+ * Content-Type 헤더에서 파라미터(charset 등)를 제외한 미디어 타입을 소문자로 반환합니다.
+ * @example
+ * getMediaType("Application/JSON; charset=utf-8") // "application/json"
+ */
+export function getMediaType(contentType: string): string {
+  return (contentType.split(";")[0] || "").trim().toLowerCase();
+}
+
+function matchesMediaType(matcher: BodyParserMatcher, mediaType: string): boolean {
+  if (typeof matcher === "function") {
+    return matcher(mediaType);
+  }
+  if (matcher instanceof RegExp) {
+    return matcher.test(mediaType);
+  }
+  const pattern = matcher.toLowerCase();
+  if (!pattern.includes("*")) {
+    return pattern === mediaType;
+  }
+  const escaped = pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\/]/g, "\\$&"));
+  return new RegExp(`^${escaped.join("[^;]*")}$`).test(mediaType);
+}
+
+// ---------------------------------------------------------------------------
+// 내장 파서
+// ---------------------------------------------------------------------------
+
+const jsonParser: BodyParser = async (body) => {
+  try {
+    const text = await body.text();
+    return text.trim() === "" ? {} : { ...JSON.parse(text) };
+  } catch (e) {
+    throw createCodedError("INVALID_JSON_BODY", 400);
+  }
+};
+
+const textParser: BodyParser = async (body) => {
+  return { text: await body.text() };
+};
+
+const ndjsonParser: BodyParser = async (body) => {
+  const lines = (await body.text()).split(/\r?\n/).filter((line) => line.trim() !== "");
+  try {
+    return { items: lines.map((line) => JSON.parse(line)) };
+  } catch (e) {
+    throw createCodedError("INVALID_NDJSON_BODY", 400);
+  }
+};
+
+const xmlParser: BodyParser = async (body) => {
+  try {
+    return parseXml(await body.text());
+  } catch (e) {
+    throw createCodedError("INVALID_XML_BODY", 400);
+  }
+};
+
+const BUILT_IN_PARSERS: BodyParserEntry[] = [
+  { match: "application/merge-patch+json", parse: jsonParser },
+  { match: "*/*+json", parse: jsonParser },
+  { match: "application/x-ndjson", parse: ndjsonParser },
+  { match: "application/ndjson", parse: ndjsonParser },
+  { match: "application/jsonl", parse: ndjsonParser },
+  { match: "application/xml", parse: xmlParser },
+  { match: "text/xml", parse: xmlParser },
+  { match: "*/*+xml", parse: xmlParser },
+  { match: "text/plain", parse: textParser },
+];
+
+const registeredParsers: BodyParserEntry[] = [];
+
+/**
+ * 전역 본문 파서를 등록합니다. 나중에 등록한 파서와 내장 파서보다 먼저 등록한 파서가 우선합니다.
+ * @returns 등록을 해제하는 함수
+ * @example
+ * registerBodyParser("text/csv", async (body) => ({ rows: parseCsv(await body.text()) }));
+ */
+export function registerBodyParser(match: BodyParserMatcher, parse: BodyParser): () => void {
+  const entry: BodyParserEntry = { match, parse };
+  registeredParsers.push(entry);
+  return () => {
+    const index = registeredParsers.indexOf(entry);
+    if (index !== -1) {
+      registeredParsers.splice(index, 1);
+    }
+  };
+}
+
+/**
+ * 미디어 타입에 맞는 본문 파서를 찾습니다.
+ * 우선순위: 호출 시 전달한 파서 > registerBodyParser로 등록한 파서 > 내장 파서
+ * @param options.builtIn - false면 내장 파서는 찾지 않음 (기본값: true)
+ */
+export function findBodyParser(
+  mediaType: string,
+  parsers: BodyParserEntry[] = [],
+  { builtIn = true }: { builtIn?: boolean } = {}
+): BodyParser | undefined {
+  const candidates = builtIn ? [...parsers, ...registeredParsers, ...BUILT_IN_PARSERS] : [...parsers, ...registeredParsers];
+  return candidates.find(({ match }) => matchesMediaType(match, mediaType))?.parse;
+}
+
+// ---------------------------------------------------------------------------
+// Content-Encoding
+// ---------------------------------------------------------------------------
+
+type Decompressor = (buffer: InputType, options: ZlibOptions) => Promise<Buffer>;
+
+const DECOMPRESSORS: Record<string, Decompressor> = {
+  gzip: promisify(gunzip) as Decompressor,
+  "x-gzip": promisify(gunzip) as Decompressor,
+  deflate: promisify(inflate) as Decompressor,
+  br: promisify(brotliDecompress) as Decompressor,
+};
+
+/**
+ * 압축 해제한 요청 본문의 기본 최대 크기 (10MB)
+ */
+export const DEFAULT_MAX_DECOMPRESSED_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Content-Encoding 헤더 값을 적용된 순서대로 나눕니다. identity는 제외합니다.
+ * @example
+ * parseContentEncoding("gzip, br") // ["gzip", "br"]
+ */
+export function parseContentEncoding(contentEncoding: string | undefined): string[] {
+  return (contentEncoding ?? "")
+    .split(",")
+    .map((encoding) => encoding.trim().toLowerCase())
+    .filter((encoding) => encoding !== "" && encoding !== "identity");
+}
+
+/**
+ * Content-Encoding(gzip, deflate, br)에 따라 본문의 압축을 풉니다. 여러 번 적용된 경우 역순으로 풉니다.
+ * @param maxSize - 압축 해제 후 허용할 최대 바이트 수 (압축 폭탄 방지)
+ * @throws {StatusError} 415 - 지원하지 않는 인코딩, 413 - 압축 해제 크기 초과, 400 - 손상된 데이터
+ */
+export async function decompressBody(
+  bytes: Uint8Array,
+  contentEncoding: string,
+  maxSize: number = DEFAULT_MAX_DECOMPRESSED_SIZE
+): Promise<Uint8Array> {
+  const encodings = parseContentEncoding(contentEncoding);
+  const unsupported = encodings.find((encoding) => !Object.hasOwn(DECOMPRESSORS, encoding));
+  if (unsupported !== undefined) {
+    throw createCodedError("UNSUPPORTED_CONTENT_ENCODING", 415, { encoding: unsupported });
+  }
+
+  let decoded = bytes;
+  for (const encoding of encodings.reverse()) {
+    try {
+      decoded = await (DECOMPRESSORS[encoding] as Decompressor)(decoded, { maxOutputLength: maxSize });
+    } catch (e) {
+      if (e instanceof RangeError) {
+        throw createCodedError("DECOMPRESSED_BODY_TOO_LARGE", 413, { limit: maxSize });
+      }
+      throw createCodedError("INVALID_ENCODED_BODY", 400, { encoding });
+    }
+  }
+  return decoded;
+}
+
+// ---------------------------------------------------------------------------
+// XML
+// ---------------------------------------------------------------------------
+
+const XML_ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" };
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (entity, code: string) => {
+    if (code.startsWith("#x")) return String.fromCodePoint(parseInt(code.slice(2), 16));
+    if (code.startsWith("#")) return String.fromCodePoint(parseInt(code.slice(1), 10));
+    return XML_ENTITIES[code] ?? entity;
+  });
+}
+
+// 반복되는 요소는 배열로 모음. 배열은 여기서만 만들므로 복사하지 않고 그대로 추가
+function appendChild(target: MutableObject, key: string, value: unknown) {
+  const existing = Object.hasOwn(target, key) ? target[key] : undefined;
+  if (Array.isArray(existing)) {
+    existing.push(value);
+    return;
+  }
+  const next = existing === undefined ? value : [existing, value];
+  Object.defineProperty(target, key, { value: next, writable: true, enumerable: true, configurable: true });
+}
+
+type XmlElement = {
+  name: string;
+  attributes: MutableObject;
+  children: MutableObject;
+  text: string;
+  hasChildren: boolean;
+};
+
+function toXmlValue(element: XmlElement): unknown {
+  const text = element.text.trim();
+  const hasAttributes = Object.keys(element.attributes).length > 0;
+  if (!element.hasChildren && !hasAttributes) {
+    return text;
+  }
+  const value: MutableObject = {};
+  for (const [key, attributeValue] of Object.entries(element.attributes)) {
+    appendChild(value, `@${key}`, attributeValue);
+  }
+  for (const [key, childValue] of Object.entries(element.children)) {
+    Object.defineProperty(value, key, { value: childValue, writable: true, enumerable: true, configurable: true });
+  }
+  if (text) {
+    appendChild(value, "#text", text);
+  }
+  return value;
+}
+
+/**
+ * 간단한 XML 문서를 객체로 변환합니다. 루트 요소의 자식이 최상위 키가 됩니다.
+ * - 텍스트만 있는 요소는 문자열, 반복되는 요소는 배열
+ * - 속성은 "@이름", 자식과 섞인 텍스트는 "#text" 키
+ * - DTD(DOCTYPE)는 엔티티 확장 공격을 막기 위해 허용하지 않음
+ * @example
+ * parseXml("<order id=\"1\"><item>a</item><item>b</item></order>")
+ * // { "@id": "1", item: ["a", "b"] }
+ */
+export function parseXml(xml: string): MutableObject {
+  const source = xml
+    .replace(/^\uFEFF/, "")
+    .replace(/<\?[\s\S]*?\?>/g, "")
+    .replace(/<!--[\s\S]*?-->/g, "");
+  if (/<!DOCTYPE/i.test(source)) {
+    throw new Error("DOCTYPE is not allowed");
+  }
+
+  const tokenPattern = /<!\[CDATA\[([\s\S]*?)\]\]>|<\/\s*([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+  const attributePattern = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  const stack: XmlElement[] = [];
+  let root: XmlElement | undefined;
+  let lastIndex = 0;
+
+  for (const token of source.matchAll(tokenPattern)) {
+    if (token.index !== lastIndex) {
+      throw new Error("Malformed XML");
+    }
+    lastIndex = token.index + token[0].length;
+    const [, cdata, closingName, openingName, attributeText, selfClosing, text] = token;
+    const current = stack[stack.length - 1];
+
+    if (cdata !== undefined || text !== undefined) {
+      if (!current) {
+        if ((text ?? cdata ?? "").trim() !== "") throw new Error("Text outside of root element");
+        continue;
+      }
+      current.text += cdata ?? decodeXmlEntities(text as string);
+      continue;
+    }
+
+    if (closingName !== undefined) {
+      const element = stack.pop();
+      if (!element || element.name !== closingName) {
+        throw new Error(`Unexpected closing tag '${closingName}'`);
+      }
+      const parent = stack[stack.length - 1];
+      if (parent) {
+        parent.hasChildren = true;
+        appendChild(parent.children, element.name, toXmlValue(element));
+      } else {
+        root = element;
+      }
+      continue;
+    }
+
+    if (root) {
+      throw new Error("Multiple root elements");
+    }
+    const element: XmlElement = { name: openingName as string, attributes: {}, children: {}, text: "", hasChildren: false };
+    for (const [, name, doubleQuoted, singleQuoted] of (attributeText ?? "").matchAll(attributePattern)) {
+      appendChild(element.attributes, name as string, decodeXmlEntities(doubleQuoted ?? singleQuoted ?? ""));
+    }
+    if (selfClosing) {
+      if (current) {
+        current.hasChildren = true;
+        appendChild(current.children, element.name, toXmlValue(element));
+      } else {
+        root = element;
+      }
+    } else {
+      stack.push(element);
+    }
+  }
+
+  if (lastIndex !== source.length || stack.length > 0 || !root) {
+    throw new Error("Malformed XML");
+  }
+  const value = toXmlValue(root);
+  return typeof value === "string" ? { "#text": value } : (value as MutableObject);
+}
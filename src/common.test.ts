@@ -1,5 +1,20 @@
 import { describe, test, expect } from "bun:test";
-import { StatusError } from "./common";
+import {
+  StatusError,
+  ValidationError,
+  STATUS_MESSAGES,
+  getStatusMessage,
+  isStatusError,
+  isValidationError,
+  isClientError,
+  isServerError
+} from "./common";
+import { responseJsonError, responseProblemError, responseTextError } from "./contextResponse";
+
+// 다른 honopang 사본에서 만들어진 에러를 흉내냄 (같은 전역 심볼만 공유)
+function createForeignStatusError(message: string, status: number) {
+  return Object.assign(new Error(message), { status, [Symbol.for("honopang.StatusError")]: true });
+}
 
 describe("StatusError", () => {
   describe("생성자 테스트", () => {
@@ -95,6 +110,140 @@ describe("StatusError", () => {
     });
   });
 
+  describe("전체 상태 코드 목록", () => {
+    test("IANA에 등록된 상태 코드의 메시지 사용", () => {
+      expect(new StatusError(405).message).toBe("Method Not Allowed");
+      expect(new StatusError(410).message).toBe("Gone");
+      expect(new StatusError(413).message).toBe("Content Too Large");
+      expect(new StatusError(415).message).toBe("Unsupported Media Type");
+      expect(new StatusError(451).message).toBe("Unavailable For Legal Reasons");
+      expect(new StatusError(504).message).toBe("Gateway Timeout");
+      expect(new StatusError(511).message).toBe("Network Authentication Required");
+    });
+
+    test("getStatusMessage와 STATUS_MESSAGES", () => {
+      expect(getStatusMessage(201)).toBe("Created");
+      expect(getStatusMessage(599)).toBe("HTTP 599 Error");
+      expect(STATUS_MESSAGES[409]).toBe("Conflict");
+      expect(Object.isFrozen(STATUS_MESSAGES)).toBe(true);
+    });
+  });
+
+  describe("팩토리 메서드", () => {
+    test("기본 메시지와 상태 코드로 생성", () => {
+      const error = StatusError.notFound();
+
+      expect(error).toBeInstanceOf(StatusError);
+      expect(error.status).toBe(404);
+      expect(error.message).toBe("Not Found");
+    });
+
+    test("메시지를 직접 지정", () => {
+      expect(StatusError.badRequest("Invalid id").message).toBe("Invalid id");
+      expect(StatusError.conflict("Already exists").status).toBe(409);
+      expect(StatusError.gatewayTimeout().status).toBe(504);
+      expect(StatusError.methodNotAllowed().message).toBe("Method Not Allowed");
+    });
+
+    test("tooManyRequests, serviceUnavailable은 retryAfter 지정 가능", () => {
+      const limited = StatusError.tooManyRequests({ retryAfter: 30 });
+      const unavailable = StatusError.serviceUnavailable({ message: "Maintenance", retryAfter: 120 });
+
+      expect(limited.status).toBe(429);
+      expect(limited.message).toBe("Too Many Requests");
+      expect(limited.retryAfter).toBe(30);
+      expect(unavailable.message).toBe("Maintenance");
+      expect(unavailable.retryAfter).toBe(120);
+      expect(StatusError.tooManyRequests("Slow down").message).toBe("Slow down");
+    });
+
+    test("생성자 옵션으로 retryAfter 지정", () => {
+      expect(new StatusError(503, 500, { retryAfter: 10 }).retryAfter).toBe(10);
+      expect(new StatusError("Busy", 503).retryAfter).toBeUndefined();
+    });
+  });
+
+  describe("오류 코드, 추가 정보, 원인, 헤더", () => {
+    test("생성자 옵션으로 지정", () => {
+      const cause = new Error("connection refused");
+      const error = new StatusError("Upstream failed", 502, {
+        code: "UPSTREAM_ERROR",
+        details: { service: "billing" },
+        cause,
+        headers: { "X-Upstream": "billing" }
+      });
+
+      expect(error.code).toBe("UPSTREAM_ERROR");
+      expect(error.details).toEqual({ service: "billing" });
+      expect(error.cause).toBe(cause);
+      expect(error.headers).toEqual({ "X-Upstream": "billing" });
+    });
+
+    test("지정하지 않으면 비어 있음", () => {
+      const error = new StatusError(404);
+
+      expect(error.code).toBeUndefined();
+      expect(error.details).toBeUndefined();
+      expect(error.cause).toBeUndefined();
+      expect(error.headers).toEqual({});
+    });
+
+    test("팩토리 메서드에 옵션 객체 전달", () => {
+      const error = StatusError.forbidden({ message: "No access", code: "NO_ACCESS" });
+
+      expect(error.status).toBe(403);
+      expect(error.message).toBe("No access");
+      expect(error.code).toBe("NO_ACCESS");
+      expect(StatusError.notFound({ code: "MISSING" }).message).toBe("Not Found");
+    });
+
+    test("ValidationError도 옵션 지정 가능", () => {
+      const error = new ValidationError([], undefined, { code: "INVALID_INPUT" });
+
+      expect(error.code).toBe("INVALID_INPUT");
+      expect(error.message).toBe("Validation failed");
+    });
+  });
+
+  describe("판별 함수", () => {
+    test("isStatusError는 다른 honopang 사본에서 만든 에러도 인식", () => {
+      expect(isStatusError(new StatusError(404))).toBe(true);
+      expect(isStatusError(new ValidationError([]))).toBe(true);
+      expect(isStatusError(createForeignStatusError("Not Found", 404))).toBe(true);
+      expect(isStatusError(new Error("x"))).toBe(false);
+      expect(isStatusError({ status: 404 })).toBe(false);
+      expect(isStatusError(null)).toBe(false);
+    });
+
+    test("instanceof도 다른 사본의 에러에 동작", () => {
+      const foreign = createForeignStatusError("Not Found", 404);
+
+      expect(foreign instanceof StatusError).toBe(true);
+      expect(foreign instanceof ValidationError).toBe(false);
+      expect(new StatusError(404) instanceof ValidationError).toBe(false);
+    });
+
+    test("isValidationError", () => {
+      const foreign = Object.assign(createForeignStatusError("Invalid", 422), {
+        [Symbol.for("honopang.ValidationError")]: true
+      });
+
+      expect(isValidationError(new ValidationError([]))).toBe(true);
+      expect(isValidationError(foreign)).toBe(true);
+      expect(foreign instanceof ValidationError).toBe(true);
+      expect(isValidationError(new StatusError(422))).toBe(false);
+    });
+
+    test("isClientError, isServerError는 에러와 상태 코드 모두 판별", () => {
+      expect(isClientError(StatusError.notFound())).toBe(true);
+      expect(isClientError(429)).toBe(true);
+      expect(isClientError(new Error("x"))).toBe(false);
+      expect(isServerError(new Error("x"))).toBe(true);
+      expect(isServerError(StatusError.badGateway())).toBe(true);
+      expect(isServerError(404)).toBe(false);
+    });
+  });
+
   describe("Error 클래스 상속 테스트", () => {
     test("Error 프로토타입 체인이 올바르게 설정됨", () => {
       const error = new StatusError("Test error", 400);
@@ -133,3 +282,117 @@ describe("StatusError", () => {
     });
   });
 });
+
+describe("StatusError.fromResponse", () => {
+  test("responseJsonError 응답을 되돌림 (status, message, code, details)", async () => {
+    const original = StatusError.notFound({ message: "User not found", code: "USER_NOT_FOUND", details: { id: 1 } });
+
+    const error = await StatusError.fromResponse(responseJsonError(original));
+
+    expect(error).toBeInstanceOf(StatusError);
+    expect(error.status).toBe(404);
+    expect(error.message).toBe("User not found");
+    expect(error.code).toBe("USER_NOT_FOUND");
+    expect(error.details).toEqual({ id: 1 });
+  });
+
+  test("422 응답의 errors는 ValidationError로 되돌림", async () => {
+    const errors = [{ field: "email", rule: "required", message: "Required field 'email' is missing or empty" }];
+
+    const error = await StatusError.fromResponse(responseJsonError(new ValidationError(errors)));
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).errors).toEqual(errors);
+    expect(error.message).toBe("Required field 'email' is missing or empty");
+  });
+
+  test("problem+json 응답은 detail을 메시지로 사용", async () => {
+    const original = StatusError.conflict({ message: "Email taken", code: "EMAIL_TAKEN" });
+
+    const error = await StatusError.fromResponse(responseProblemError(original));
+
+    expect(error.status).toBe(409);
+    expect(error.message).toBe("Email taken");
+    expect(error.code).toBe("EMAIL_TAKEN");
+  });
+
+  test("텍스트 응답은 Error: 접두사를 제거", async () => {
+    const error = await StatusError.fromResponse(responseTextError(new StatusError("Forbidden area", 403)));
+
+    expect(error.status).toBe(403);
+    expect(error.message).toBe("Forbidden area");
+  });
+
+  test("본문이 없거나 해석할 수 없으면 상태 코드의 기본 메시지", async () => {
+    const empty = await StatusError.fromResponse(new Response(null, { status: 404 }));
+    const html = await StatusError.fromResponse(
+      new Response("<h1>Oops</h1>", { status: 500, headers: { "Content-Type": "text/html" } })
+    );
+    const brokenJson = await StatusError.fromResponse(
+      new Response("{", { status: 400, headers: { "Content-Type": "application/json" } })
+    );
+
+    expect(empty.message).toBe("Not Found");
+    expect(html.message).toBe("Internal Server Error");
+    expect(brokenJson.message).toBe("Bad Request");
+  });
+
+  test("Retry-After, WWW-Authenticate 헤더 유지", async () => {
+    const limited = await StatusError.fromResponse(responseJsonError(StatusError.tooManyRequests({ retryAfter: 30 })));
+    const unauthorized = await StatusError.fromResponse(
+      responseJsonError(StatusError.unauthorized({ headers: { "WWW-Authenticate": "Bearer" } }))
+    );
+
+    expect(limited.retryAfter).toBe(30);
+    expect(unauthorized.headers).toEqual({ "WWW-Authenticate": "Bearer" });
+  });
+
+  test("mapUpstream5xx로 상대 서비스의 5xx를 502로 변환", async () => {
+    const response = responseJsonError(new StatusError("Database down", 503, { code: "DB_DOWN" }));
+
+    const error = await StatusError.fromResponse(response, { mapUpstream5xx: true });
+
+    expect(error.status).toBe(502);
+    expect(error.message).toBe("Database down");
+    expect(error.code).toBe("DB_DOWN");
+    expect((error.cause as StatusError).status).toBe(503);
+  });
+
+  test("mapUpstream5xx에 상태 코드 지정, 4xx는 그대로", async () => {
+    const mapped = await StatusError.fromResponse(responseJsonError(new StatusError(500)), { mapUpstream5xx: 503 });
+    const clientError = await StatusError.fromResponse(responseJsonError(new StatusError(404)), { mapUpstream5xx: true });
+
+    expect(mapped.status).toBe(503);
+    expect(clientError.status).toBe(404);
+  });
+});
+
+describe("ValidationError", () => {
+  test("422 StatusError로 필드 오류 목록을 담음", () => {
+    const errors = [{ field: "email", rule: "required", message: "Required field 'email' is missing or empty" }];
+    const error = new ValidationError(errors);
+
+    expect(error).toBeInstanceOf(StatusError);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.name).toBe("ValidationError");
+    expect(error.status).toBe(422);
+    expect(error.errors).toEqual(errors);
+    expect(error.message).toBe("Required field 'email' is missing or empty");
+  });
+
+  test("여러 오류는 필드명과 함께 요약 메시지 생성", () => {
+    const error = new ValidationError([
+      { field: "age", rule: "type", message: "Expected number" },
+      { field: "name", rule: "min", message: "Too short" }
+    ]);
+
+    expect(error.message).toBe("Validation failed: age: Expected number; name: Too short");
+  });
+
+  test("메시지를 직접 지정", () => {
+    const error = new ValidationError([], "Invalid input");
+
+    expect(error.message).toBe("Invalid input");
+    expect(new ValidationError([]).message).toBe("Validation failed");
+  });
+});
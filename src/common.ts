@@ -3,59 +3,148 @@ export type MutableObject = {
   [key: string]: any;
 };
 
+/**
+ * IANA HTTP Status Code Registry의 상태 코드별 기본 메시지
+ * 422는 널리 쓰이는 RFC 4918의 이름(Unprocessable Entity)을 유지합니다.
+ */
+export const STATUS_MESSAGES: Readonly<Record<number, string>> = Object.freeze({
+  100: "Continue",
+  101: "Switching Protocols",
+  102: "Processing",
+  103: "Early Hints",
+  200: "OK",
+  201: "Created",
+  202: "Accepted",
+  203: "Non-Authoritative Information",
+  204: "No Content",
+  205: "Reset Content",
+  206: "Partial Content",
+  207: "Multi-Status",
+  208: "Already Reported",
+  226: "IM Used",
+  300: "Multiple Choices",
+  301: "Moved Permanently",
+  302: "Found",
+  303: "See Other",
+  304: "Not Modified",
+  305: "Use Proxy",
+  307: "Temporary Redirect",
+  308: "Permanent Redirect",
+  400: "Bad Request",
+  401: "Unauthorized",
+  402: "Payment Required",
+  403: "Forbidden",
+  404: "Not Found",
+  405: "Method Not Allowed",
+  406: "Not Acceptable",
+  407: "Proxy Authentication Required",
+  408: "Request Timeout",
+  409: "Conflict",
+  410: "Gone",
+  411: "Length Required",
+  412: "Precondition Failed",
+  413: "Content Too Large",
+  414: "URI Too Long",
+  415: "Unsupported Media Type",
+  416: "Range Not Satisfiable",
+  417: "Expectation Failed",
+  421: "Misdirected Request",
+  422: "Unprocessable Entity",
+  423: "Locked",
+  424: "Failed Dependency",
+  425: "Too Early",
+  426: "Upgrade Required",
+  428: "Precondition Required",
+  429: "Too Many Requests",
+  431: "Request Header Fields Too Large",
+  451: "Unavailable For Legal Reasons",
+  500: "Internal Server Error",
+  501: "Not Implemented",
+  502: "Bad Gateway",
+  503: "Service Unavailable",
+  504: "Gateway Timeout",
+  505: "HTTP Version Not Supported",
+  506: "Variant Also Negotiates",
+  507: "Insufficient Storage",
+  508: "Loop Detected",
+  510: "Not Extended",
+  511: "Network Authentication Required",
+});
+
+/**
+ * 상태 코드의 기본 메시지를 반환합니다. 등록되지 않은 코드는 "HTTP {status} Error"
+ * @example
+ * getStatusMessage(404) // "Not Found"
+ * getStatusMessage(418) // "HTTP 418 Error"
+ */
+export function getStatusMessage(status: number): string {
+  return STATUS_MESSAGES[status] ?? `HTTP ${status} Error`;
+}
+
+/**
+ * StatusError 생성 옵션
+ */
+export type StatusErrorOptions = {
+  /** 클라이언트가 분기에 사용할 수 있는 오류 코드 (예: "USER_NOT_FOUND") */
+  code?: string;
+  /** 응답 JSON에 함께 담을 추가 정보 */
+  details?: unknown;
+  /** 원인이 된 에러 (Error.cause) */
+  cause?: unknown;
+  /** 에러 응답에 설정할 헤더 (예: { "WWW-Authenticate": 'Bearer realm="api"' }) */
+  headers?: Record<string, string>;
+  /** 다시 시도할 수 있는 시점. 초 단위 숫자 또는 Date (Retry-After 헤더로 응답) */
+  retryAfter?: number | Date;
+};
+
+/**
+ * 팩토리 메서드 옵션. 문자열이면 메시지로 사용합니다.
+ */
+export type StatusErrorFactoryOptions = string | (StatusErrorOptions & { message?: string });
+
+// 패키지가 중복 설치되거나 다른 realm에서 만들어진 에러도 식별할 수 있도록 전역 심볼로 표시
+const STATUS_ERROR_BRAND = Symbol.for("honopang.StatusError");
+const VALIDATION_ERROR_BRAND = Symbol.for("honopang.ValidationError");
+
 /**
  * HTTP 상태 코드를 포함하는 커스텀 에러 클래스
+ * instanceof는 다른 honopang 사본에서 만들어진 StatusError에도 동작합니다.
  * @example
  * throw new StatusError("Not Found", 404);
  * throw new StatusError(404); // 자동으로 "Not Found" 메시지 생성
+ * throw StatusError.notFound("User not found");
+ * throw StatusError.tooManyRequests({ retryAfter: 30 });
+ * throw StatusError.notFound({ message: "User not found", code: "USER_NOT_FOUND", details: { id } });
+ * throw new StatusError("Upstream failed", 502, { code: "UPSTREAM_ERROR", cause: error });
  */
 
 export class StatusError extends Error {
   // 원하는 필드들
   public status: number;
+  public code?: string;
+  public details?: unknown;
+  public headers: Record<string, string>;
+  public retryAfter?: number | Date;
 
-  constructor(message: string | number, status = 500) {
+  constructor(message: string | number, status = 500, options: StatusErrorOptions = {}) {
     if (typeof message === "number") {
       status = message;
-      switch (status) {
-        case 400:
-          message = "Bad Request";
-          break;
-        case 401:
-          message = "Unauthorized";
-          break;
-        case 403:
-          message = "Forbidden";
-          break;
-        case 404:
-          message = "Not Found";
-          break;
-        case 409:
-          message = "Conflict";
-          break;
-        case 422:
-          message = "Unprocessable Entity";
-          break;
-        case 429:
-          message = "Too Many Requests";
-          break;
-        case 500:
-          message = "Internal Server Error";
-          break;
-        case 502:
-          message = "Bad Gateway";
-          break;
-        case 503:
-          message = "Service Unavailable";
-          break;
-        default:
-          message = `HTTP ${status} Error`;
-          break;
-      }
+      message = getStatusMessage(status);
     }
-    super(message);
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
     this.status = status;
     this.name = 'StatusError'; // 에러 이름 설정
+    this.headers = { ...options.headers };
+    if (options.code !== undefined) {
+      this.code = options.code;
+    }
+    if (options.details !== undefined) {
+      this.details = options.details;
+    }
+    if (options.retryAfter !== undefined) {
+      this.retryAfter = options.retryAfter;
+    }
+    Object.defineProperty(this, STATUS_ERROR_BRAND, { value: true });
 
     // ↓ Error 를 상속할 때 하위 클래스의 prototype 체인을 맞춰주는 관용구
     Object.setPrototypeOf(this, new.target.prototype);
@@ -65,4 +154,300 @@ export class StatusError extends Error {
       Error.captureStackTrace(this, StatusError);
     }
   }
+
+  // 하위 클래스는 기본 prototype 체인으로 판단
+  static [Symbol.hasInstance](instance: unknown): boolean {
+    return this === StatusError ? isStatusError(instance) : Function.prototype[Symbol.hasInstance].call(this, instance);
+  }
+
+  // 팩토리 메서드 공통: 문자열은 메시지, 객체는 메시지와 옵션
+  private static create(status: number, options: StatusErrorFactoryOptions = {}): StatusError {
+    const { message, ...rest } = typeof options === "string" ? { message: options } : options;
+    return new StatusError(message ?? getStatusMessage(status), status, rest);
+  }
+
+  /** 400 Bad Request */
+  static badRequest(options?: StatusErrorFactoryOptions): StatusError {
+    return StatusError.create(400, options);
+  }
+
+  /** 401 Unauthorized */
+  static unauthorized(options?: StatusErrorFactoryOptions): StatusError {
+    return StatusError.create(401, options);
+  }
+
+  /** 402 Payment Required */
+  static paymentRequired(options?: StatusErrorFactoryOptions): StatusError {
+    return StatusError.create(402, options);
+  }
+
+  /** 403 Forbidden */
+  static forbidden(options?: StatusErrorFactoryOptions): StatusError {
+    return StatusError.create(403, options);
+  }
+
+  /** 404 Not Found */
+  static notFound(options?: StatusErrorFactoryOptions): StatusError {
+    return StatusError.create(404, options);
+  }
+
+  /** 405 Method Not Allowed */
+  static methodNotAllowed(options?: StatusErrorFactoryOptions): StatusError {
+    return StatusError.create(405, options);
+  }
+
+  /** 406 Not Acceptable */
+  static notAcceptable(options?: StatusErrorFactoryOptions): StatusError {
+    return StatusError.create(406, options);
+  }
+
+  /** 408 Request Timeout */
+  static requestTimeout(options?: StatusErrorFactoryOptions): StatusError {
+    return StatusError.create(408, options);
+  }
+
+  /** 409 Conflict */
+  static conflict(options?: StatusErrorFactoryOptions): StatusError {
+    return StatusError.create(409, options);
+  }
+
+  /** 410 Gone */
+  static gone(options?: StatusErrorFactoryOptions): StatusError {
+    return StatusError.create(410, options);
+  }
+
+  /** 412 Precondition Failed */
+  static preconditionFailed(options?: StatusErrorFactoryOptions): StatusError {
+    return StatusError.create(412, options);
+  }
+
+  /** 413 Content Too Large */
+  static contentTooLarge(options?: StatusErrorFactoryOptions): StatusError {
+    return StatusError.create(413, options);
+  }
+
+  /** 415 Unsupported Media Type */
+  static unsupportedMediaType(options?: StatusErrorFactoryOptions): StatusError {
+    return StatusError.create(415, options);
+  }
+
+  /** 422 Unprocessable Entity */
+  static unprocessableEntity(options?: StatusErrorFactoryOptions): StatusError {
+    return StatusError.create(422, options);
+  }
+
+  /** 429 Too Many Requests. retryAfter를 지정하면 Retry-After 헤더로 응답 */
+  static tooManyRequests(options?: StatusErrorFactoryOptions): StatusError {
+    return StatusError.create(429, options);
+  }
+
+  /** 500 Internal Server Error */
+  static internalServerError(options?: StatusErrorFactoryOptions): StatusError {
+    return StatusError.create(500, options);
+  }
+
+  /** 501 Not Implemented */
+  static notImplemented(options?: StatusErrorFactoryOptions): StatusError {
+    return StatusError.create(501, options);
+  }
+
+  /** 502 Bad Gateway */
+  static badGateway(options?: StatusErrorFactoryOptions): StatusError {
+    return StatusError.create(502, options);
+  }
+
+  /** 503 Service Unavailable. retryAfter를 지정하면 Retry-After 헤더로 응답 */
+  static serviceUnavailable(options?: StatusErrorFactoryOptions): StatusError {
+    return StatusError.create(503, options);
+  }
+
+  /** 504 Gateway Timeout */
+  static gatewayTimeout(options?: StatusErrorFactoryOptions): StatusError {
+    return StatusError.create(504, options);
+  }
+
+  /**
+   * 다른 서비스의 오류 응답(Response)을 StatusError로 변환합니다.
+   * responseJsonError의 JSON, responseProblemError의 problem+json, responseTextError의 텍스트 본문을 해석하여
+   * status, message, code, details를 유지하고, 422 응답에 errors 배열이 있으면 ValidationError로 만듭니다.
+   * @param options.mapUpstream5xx - true면 상대 서비스의 5xx를 502로, 숫자면 해당 상태 코드로 바꿈 (원래 에러는 cause에 보관)
+   * @example
+   * const response = await fetch(url);
+   * if (!response.ok) {
+   *   throw await StatusError.fromResponse(response, { mapUpstream5xx: true });
+   * }
+   */
+  static async fromResponse(response: Response, options: { mapUpstream5xx?: boolean | number } = {}): Promise<StatusError> {
+    const error = await readErrorResponse(response);
+    const { mapUpstream5xx } = options;
+    if (mapUpstream5xx === undefined || mapUpstream5xx === false || !isServerError(error.status)) {
+      return error;
+    }
+    const status = mapUpstream5xx === true ? 502 : mapUpstream5xx;
+    return new StatusError(error.message, status, {
+      code: error.code,
+      details: error.details,
+      headers: error.headers,
+      retryAfter: error.retryAfter,
+      cause: error,
+    });
+  }
+}
+
+// 본문에서 읽은 오류 정보를 Response의 상태 코드, 헤더와 합쳐 StatusError로 만듦
+async function readErrorResponse(response: Response): Promise<StatusError> {
+  const status = response.status;
+  const contentType = (response.headers.get("content-type") ?? "").toLowerCase();
+  const options: StatusErrorOptions = {};
+  const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+  if (retryAfter !== undefined) {
+    options.retryAfter = retryAfter;
+  }
+  const authenticate = response.headers.get("www-authenticate");
+  if (authenticate) {
+    options.headers = { "WWW-Authenticate": authenticate };
+  }
+
+  let text = "";
+  try {
+    text = response.bodyUsed ? "" : await response.text();
+  } catch (e) {
+    // 본문을 읽지 못하면 상태 코드의 기본 메시지를 사용
+  }
+
+  if (contentType.includes("json")) {
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch (e) {
+      body = undefined;
+    }
+    if (typeof body === "object" && body !== null && !Array.isArray(body)) {
+      const json = body as MutableObject;
+      // problem+json은 detail, 그 외는 message
+      const message = [json.message, json.detail, json.title].find((value) => typeof value === "string" && value !== "");
+      if (typeof json.code === "string") {
+        options.code = json.code;
+      }
+      if (json.details !== undefined) {
+        options.details = json.details;
+      }
+      if (status === 422 && Array.isArray(json.errors)) {
+        return new ValidationError(json.errors as FieldError[], message, options);
+      }
+      return new StatusError(message ?? getStatusMessage(status), status, options);
+    }
+  }
+
+  // responseTextError의 "Error: " 접두사는 제거. HTML 등은 기본 메시지 사용
+  const message = contentType.startsWith("text/plain") || contentType === "" ? text.trim().replace(/^Error: /, "") : "";
+  return new StatusError(message || getStatusMessage(status), status, options);
+}
+
+function parseRetryAfter(value: string | null): number | Date | undefined {
+  if (!value) {
+    return undefined;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim());
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * StatusError인지 확인합니다. 다른 realm이나 중복 설치된 honopang에서 만든 에러도 인식합니다.
+ */
+export function isStatusError(error: unknown): error is StatusError {
+  return typeof error === "object" && error !== null && (error as any)[STATUS_ERROR_BRAND] === true;
+}
+
+/**
+ * ValidationError인지 확인합니다. 다른 realm이나 중복 설치된 honopang에서 만든 에러도 인식합니다.
+ */
+export function isValidationError(error: unknown): error is ValidationError {
+  return typeof error === "object" && error !== null && (error as any)[VALIDATION_ERROR_BRAND] === true;
+}
+
+// 에러 응답에 사용될 상태 코드. status가 없는 에러는 500으로 취급
+function toStatus(errorOrStatus: unknown): number {
+  if (typeof errorOrStatus === "number") {
+    return errorOrStatus;
+  }
+  const status = typeof errorOrStatus === "object" && errorOrStatus !== null ? (errorOrStatus as any).status : undefined;
+  return typeof status === "number" ? status : 500;
+}
+
+/**
+ * 4xx 클라이언트 오류인지 확인합니다. 에러 또는 상태 코드를 받습니다.
+ * @example
+ * isClientError(StatusError.notFound()) // true
+ * isClientError(429) // true
+ */
+export function isClientError(errorOrStatus: unknown): boolean {
+  const status = toStatus(errorOrStatus);
+  return status >= 400 && status < 500;
+}
+
+/**
+ * 5xx 서버 오류인지 확인합니다. status가 없는 일반 Error는 응답과 동일하게 500으로 취급합니다.
+ * @example
+ * isServerError(new Error("boom")) // true
+ * isServerError(503) // true
+ */
+export function isServerError(errorOrStatus: unknown): boolean {
+  const status = toStatus(errorOrStatus);
+  return status >= 500 && status < 600;
+}
+
+/**
+ * 필드 단위 검증 오류
+ */
+export type FieldError = {
+  /** 오류가 발생한 필드 경로 (예: "user.email") */
+  field: string;
+  /** 위반한 규칙 (예: "required", "type", "min") */
+  rule: string;
+  /** 오류 메시지 */
+  message: string;
+  /** 메시지를 다른 언어로 만들 때 사용할 값 (내장 규칙만 제공) */
+  params?: Record<string, unknown>;
+};
+
+/**
+ * 여러 필드의 검증 오류를 한 번에 담는 422 에러
+ * responseJsonError는 errors 배열을 응답 본문에 포함합니다.
+ * @example
+ * throw new ValidationError([
+ *   { field: "email", rule: "required", message: "Required field 'email' is missing or empty" },
+ *   { field: "age", rule: "type", message: "Expected number, received string" },
+ * ]);
+ */
+export class ValidationError extends StatusError {
+  public errors: FieldError[];
+
+  constructor(errors: FieldError[], message?: string, options: StatusErrorOptions = {}) {
+    super(message ?? ValidationError.summarize(errors), 422, options);
+    this.errors = errors;
+    this.name = 'ValidationError';
+    Object.defineProperty(this, VALIDATION_ERROR_BRAND, { value: true });
+  }
+
+  static [Symbol.hasInstance](instance: unknown): boolean {
+    return this === ValidationError ? isValidationError(instance) : Function.prototype[Symbol.hasInstance].call(this, instance);
+  }
+
+  /**
+   * 필드 오류 목록으로 요약 메시지를 만듭니다. 필수 필드 메시지는 이미 필드명을 포함하므로 그대로 사용합니다.
+   * @param title - 여러 오류를 묶을 때의 제목 (기본값: "Validation failed")
+   */
+  static summarize(errors: FieldError[], title = "Validation failed"): string {
+    const messages = errors.map((error) =>
+      error.rule === "required" || !error.field ? error.message : `${error.field}: ${error.message}`
+    );
+    if (messages.length === 1) {
+      return messages[0] as string;
+    }
+    return messages.length > 0 ? `${title}: ${messages.join("; ")}` : title;
+  }
 }
@@ -1,23 +1,34 @@
 import { describe, test, expect, beforeEach } from "bun:test";
+import { Hono } from "hono";
+import { gzipSync, brotliCompressSync } from "node:zlib";
 import { parseParams } from "./contextParser";
-import { StatusError } from "./common";
+import { StatusError, ValidationError } from "./common";
+import { schema } from "./paramSchema";
+import { registerBodyParser } from "./bodyParser";
 
 // Hono Context 모킹을 위한 헬퍼 함수들
 function createMockContext(options: {
   query?: Record<string, string>;
+  search?: string;
+  params?: Record<string, string>;
+  rawBody?: string;
   contentType?: string;
   jsonData?: any;
   formData?: FormData;
   headers?: Record<string, string>;
 }) {
+  const search = options.search ?? new URLSearchParams(options.query || {}).toString();
   const mockRequest = {
+    url: `http://localhost/test${search ? `?${search}` : ""}`,
     query: () => options.query || {},
+    param: () => options.params || {},
     header: (key: string) => {
       if (key.toLowerCase() === "content-type") {
         return options.contentType || "";
       }
       return options.headers?.[key] || undefined;
     },
+    text: async () => options.rawBody ?? "",
     json: async () => {
       if (options.jsonData !== undefined) {
         return options.jsonData;
@@ -33,13 +44,21 @@ function createMockContext(options: {
   };
 
   return {
-    req: mockRequest
+    req: {
+      ...mockRequest,
+      raw: new Request(mockRequest.url, {
+        method: options.rawBody ? "POST" : "GET",
+        headers: options.headers,
+        body: options.rawBody
+      })
+    }
   } as any;
 }
 
-function createFormData(data: Record<string, string | File>) {
+function createFormData(data: Record<string, string | File> | [string, string | File][]) {
   const formData = new FormData();
-  Object.entries(data).forEach(([key, value]) => {
+  const entries = Array.isArray(data) ? data : Object.entries(data);
+  entries.forEach(([key, value]) => {
     formData.append(key, value);
   });
   return formData;
@@ -327,4 +346,778 @@ describe("parseParams", () => {
       expect(result).toEqual({ name: "John" });
     });
   });
+
+  describe("스키마 검증", () => {
+    const userSchema = schema.object({
+      name: schema.string({ min: 1 }),
+      age: schema.number({ int: true }),
+      memo: schema.optional(schema.string()),
+    });
+
+    test("스키마를 통과하면 검증된 값을 반환", async () => {
+      const context = createMockContext({
+        query: { source: "web" },
+        contentType: "application/json",
+        jsonData: { name: "Alice", age: 30 }
+      });
+
+      const result = await parseParams(context, { schema: userSchema });
+
+      expect(result).toEqual({ name: "Alice", age: 30 });
+      expect(result.name.toUpperCase()).toBe("ALICE");
+    });
+
+    test("스키마 검증 실패 시 422 StatusError 발생", async () => {
+      const context = createMockContext({
+        contentType: "application/json",
+        jsonData: { name: "Alice", age: "thirty" }
+      });
+
+      const error = await parseParams(context, { schema: userSchema }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.status).toBe(422);
+      expect(error.message).toBe("age: Expected number, received string");
+      expect(error.errors).toEqual([
+        { field: "age", rule: "type", message: "Expected number, received string", params: { expected: "number", received: "string" } }
+      ]);
+    });
+
+    test("selects 적용 후 스키마 검증", async () => {
+      const context = createMockContext({
+        query: { name: "John", role: "admin" }
+      });
+
+      const result = await parseParams(context, {
+        selects: ["name"],
+        schema: schema.object({ name: schema.string(), role: schema.optional(schema.string()) })
+      });
+
+      expect(result).toEqual({ name: "John" });
+    });
+
+    test("비동기 Standard Schema 검증기 지원", async () => {
+      const context = createMockContext({
+        query: { token: "abc" }
+      });
+      const asyncSchema = {
+        "~standard": {
+          version: 1 as const,
+          vendor: "test",
+          validate: async (value: any) => ({ value: { token: String(value.token).length } }),
+          types: undefined as unknown as { input: unknown; output: { token: number } }
+        }
+      };
+
+      const result = await parseParams(context, { schema: asyncSchema });
+
+      expect(result.token).toBe(3);
+    });
+  });
+
+  describe("타입 변환 (coerce)", () => {
+    test("coerce 옵션이 없으면 문자열 유지", async () => {
+      const context = createMockContext({
+        query: { page: "2", active: "true" }
+      });
+
+      const result = await parseParams(context);
+
+      expect(result).toEqual({ page: "2", active: "true" });
+    });
+
+    test("query 값을 자동 변환", async () => {
+      const context = createMockContext({
+        query: { page: "2", active: "true", deleted: "null", name: "John" }
+      });
+
+      const result = await parseParams(context, { coerce: true });
+
+      expect(result).toEqual({ page: 2, active: true, deleted: null, name: "John" });
+    });
+
+    test("form 값을 필드별 규칙으로 변환", async () => {
+      const formData = createFormData({
+        agree: "on",
+        tags: "a,b,c",
+        zip: "01234"
+      });
+      const context = createMockContext({
+        contentType: "application/x-www-form-urlencoded",
+        formData
+      });
+
+      const result = await parseParams(context, {
+        coerce: { fields: { agree: "boolean", tags: "list" } }
+      });
+
+      expect(result).toEqual({ agree: true, tags: ["a", "b", "c"], zip: "01234" });
+    });
+
+    test("JSON body 값은 변환하지 않음", async () => {
+      const context = createMockContext({
+        query: { page: "2" },
+        contentType: "application/json",
+        jsonData: { code: "123" }
+      });
+
+      const result = await parseParams(context, { coerce: true });
+
+      expect(result).toEqual({ page: 2, code: "123" });
+    });
+
+    test("GET과 JSON POST가 같은 스키마를 통과", async () => {
+      const paramsSchema = schema.object({ page: schema.number(), active: schema.boolean() });
+      const getContext = createMockContext({
+        query: { page: "1", active: "false" }
+      });
+      const postContext = createMockContext({
+        contentType: "application/json",
+        jsonData: { page: 1, active: false }
+      });
+
+      const fromQuery = await parseParams(getContext, { coerce: true, schema: paramsSchema });
+      const fromJson = await parseParams(postContext, { coerce: true, schema: paramsSchema });
+
+      expect(fromQuery).toEqual(fromJson);
+    });
+  });
+
+  describe("중첩 키와 반복 키", () => {
+    test("query의 bracket 배열과 반복 키를 배열로 변환", async () => {
+      const context = createMockContext({
+        search: "tags[]=a&tags[]=b&ids=1&ids=2&name=John"
+      });
+
+      const result = await parseParams(context);
+
+      expect(result).toEqual({ tags: ["a", "b"], ids: ["1", "2"], name: "John" });
+    });
+
+    test("query의 중첩 키를 객체로 변환", async () => {
+      const context = createMockContext({
+        search: "user[name]=x&user[address][city]=Seoul&items[0][id]=1&items[1][id]=2"
+      });
+
+      const result = await parseParams(context);
+
+      expect(result).toEqual({
+        user: { name: "x", address: { city: "Seoul" } },
+        items: [{ id: "1" }, { id: "2" }]
+      });
+    });
+
+    test("form의 체크박스와 중첩 필드 처리", async () => {
+      const file1 = new File(["1"], "1.txt");
+      const file2 = new File(["2"], "2.txt");
+      const formData = createFormData([
+        ["colors[]", "red"],
+        ["colors[]", "blue"],
+        ["profile[nickname]", "nick"],
+        ["attachments", file1],
+        ["attachments", file2]
+      ]);
+      const context = createMockContext({
+        contentType: "multipart/form-data",
+        formData
+      });
+
+      const result = await parseParams(context);
+
+      expect(result.colors).toEqual(["red", "blue"]);
+      expect(result.profile).toEqual({ nickname: "nick" });
+      expect(result.attachments).toEqual([file1, file2]);
+    });
+
+    test("nested: false이면 키를 그대로 사용", async () => {
+      const formData = createFormData([
+        ["user[name]", "x"],
+        ["tag", "a"],
+        ["tag", "b"]
+      ]);
+      const context = createMockContext({
+        query: { "user[id]": "1" },
+        contentType: "application/x-www-form-urlencoded",
+        formData
+      });
+
+      const result = await parseParams(context, { nested: false });
+
+      expect(result).toEqual({ "user[id]": "1", "user[name]": "x", tag: "b" });
+    });
+
+    test("중첩 값에도 coerce 규칙 적용", async () => {
+      const context = createMockContext({
+        search: "filter[age]=30&filter[zip]=01234&ids[]=1&ids[]=2"
+      });
+
+      const result = await parseParams(context, {
+        coerce: { fields: { "filter.zip": "string" } }
+      });
+
+      expect(result).toEqual({ filter: { age: 30, zip: "01234" }, ids: [1, 2] });
+    });
+  });
+
+  describe("경로 파라미터, 헤더, 쿠키 병합", () => {
+    test("옵션을 지정하지 않으면 query와 body만 사용", async () => {
+      const context = createMockContext({
+        query: { name: "John" },
+        params: { id: "1" },
+        headers: { "X-Tenant-Id": "t1" }
+      });
+
+      const result = await parseParams(context);
+
+      expect(result).toEqual({ name: "John" });
+    });
+
+    test("경로 파라미터, 지정한 헤더와 쿠키를 포함", async () => {
+      const context = createMockContext({
+        query: { name: "John" },
+        params: { id: "1" },
+        headers: { "X-Tenant-Id": "t1", "X-Request-Id": "r1", "Cookie": "session=abc; theme=dark" }
+      });
+
+      const result = await parseParams(context, {
+        path: true,
+        headers: { "X-Tenant-Id": "tenantId" },
+        cookies: ["session"]
+      });
+
+      expect(result).toEqual({ id: "1", name: "John", tenantId: "t1", session: "abc" });
+    });
+
+    test("cookies: true이면 모든 쿠키 포함", async () => {
+      const context = createMockContext({
+        headers: { "Cookie": "session=abc; theme=dark" }
+      });
+
+      const result = await parseParams(context, { cookies: true });
+
+      expect(result).toEqual({ session: "abc", theme: "dark" });
+    });
+
+    test("기본 우선순위는 path > body > query", async () => {
+      const context = createMockContext({
+        query: { id: "query" },
+        params: { id: "path" },
+        contentType: "application/json",
+        jsonData: { id: "body", name: "body" }
+      });
+
+      const result = await parseParams(context, { path: true });
+
+      expect(result).toEqual({ id: "path", name: "body" });
+    });
+
+    test("precedence로 우선순위 변경", async () => {
+      const context = createMockContext({
+        query: { id: "query" },
+        params: { id: "path" },
+        contentType: "application/json",
+        jsonData: { id: "body" }
+      });
+
+      const result = await parseParams(context, { path: true, precedence: ["query", "body"] });
+
+      expect(result).toEqual({ id: "query" });
+    });
+
+    test("strict 모드에서 값이 다르면 400 에러", async () => {
+      const context = createMockContext({
+        query: { id: "1" },
+        params: { id: "2" }
+      });
+
+      const error = await parseParams(context, { path: true, strict: true }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(StatusError);
+      expect(error.status).toBe(400);
+      expect(error.message).toBe("Parameter 'id' has conflicting values from path and query");
+    });
+
+    test("strict 모드에서 값이 같으면 통과", async () => {
+      const context = createMockContext({
+        query: { id: "1" },
+        params: { id: "1" },
+        contentType: "application/json",
+        jsonData: { id: 1 }
+      });
+
+      const result = await parseParams(context, { path: true, strict: true, coerce: true });
+
+      expect(result).toEqual({ id: 1 });
+    });
+
+    test("strict 모드에서 toString 같은 상속 속성 이름도 일반 키로 처리", async () => {
+      const context = createMockContext({ search: "toString=1&valueOf=2&hasOwnProperty=3" });
+
+      const result = await parseParams(context, { strict: true });
+
+      expect(result).toEqual({ toString: "1", valueOf: "2", hasOwnProperty: "3" });
+    });
+  });
+
+  describe("필드 오류 수집", () => {
+    test("누락된 필수 필드를 모두 모아서 422 ValidationError 발생", async () => {
+      const context = createMockContext({
+        query: { name: "John" }
+      });
+
+      const error = await parseParams(context, {
+        requires: ["name", "email", "phone"]
+      }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error).toBeInstanceOf(StatusError);
+      expect(error.status).toBe(422);
+      expect(error.errors).toEqual([
+        { field: "email", rule: "required", message: "Required field 'email' is missing or empty" },
+        { field: "phone", rule: "required", message: "Required field 'phone' is missing or empty" }
+      ]);
+      expect(error.message).toBe(
+        "Validation failed: Required field 'email' is missing or empty; Required field 'phone' is missing or empty"
+      );
+    });
+
+    test("requires와 스키마 오류를 함께 수집하고 중복은 제거", async () => {
+      const context = createMockContext({
+        contentType: "application/json",
+        jsonData: { age: "x", tags: ["a", 1] }
+      });
+
+      const error = await parseParams(context, {
+        requires: ["name"],
+        schema: schema.object({
+          name: schema.string(),
+          age: schema.number(),
+          tags: schema.array(schema.string())
+        })
+      }).catch((e) => e);
+
+      expect(error.errors).toEqual([
+        { field: "name", rule: "required", message: "Required field 'name' is missing or empty" },
+        { field: "age", rule: "type", message: "Expected number, received string", params: { expected: "number", received: "string" } },
+        { field: "tags.1", rule: "type", message: "Expected string, received number", params: { expected: "string", received: "number" } }
+      ]);
+    });
+
+    test("외부 검증기의 code를 rule로 사용", async () => {
+      const context = createMockContext({
+        query: { name: "" }
+      });
+      const externalSchema = {
+        "~standard": {
+          version: 1 as const,
+          vendor: "external",
+          validate: () => ({ issues: [{ message: "Too short", path: [{ key: "name" }], code: "too_small" }, { message: "Invalid" }] })
+        }
+      };
+
+      const error: any = await parseParams(context, { schema: externalSchema }).catch((e) => e);
+
+      expect(error.errors).toEqual([
+        { field: "name", rule: "too_small", message: "Too short" },
+        { field: "", rule: "invalid", message: "Invalid" }
+      ]);
+    });
+  });
+
+  describe("업로드 제한", () => {
+    const pngBytes = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+    test("제한을 통과하면 파일을 그대로 반환", async () => {
+      const avatar = new File([pngBytes], "avatar.png", { type: "image/png" });
+      const context = createMockContext({
+        contentType: "multipart/form-data",
+        formData: createFormData({ name: "John", avatar })
+      });
+
+      const result = await parseParams(context, {
+        uploads: { maxFileSize: 1024, maxFiles: 1, allowedTypes: ["image/png"], allowedExtensions: ["png"], sniff: true }
+      });
+
+      expect(result.name).toBe("John");
+      expect(result.avatar).toBeInstanceOf(File);
+      expect(result.avatar.name).toBe("avatar.png");
+    });
+
+    test("Content-Length가 maxBodySize를 넘으면 본문을 읽기 전에 413", async () => {
+      let formDataRead = false;
+      const context = createMockContext({
+        contentType: "multipart/form-data",
+        headers: { "content-length": "2048" }
+      });
+      context.req.formData = async () => {
+        formDataRead = true;
+        return new FormData();
+      };
+
+      const error = await parseParams(context, { uploads: { maxBodySize: 1024 } }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(StatusError);
+      expect(error.status).toBe(413);
+      expect(formDataRead).toBe(false);
+    });
+
+    test("Content-Length가 없으면 본문을 읽으면서 크기 제한", async () => {
+      const context = createMockContext({
+        contentType: "application/x-www-form-urlencoded",
+        rawBody: `memo=${"x".repeat(2048)}`
+      });
+
+      const error = await parseParams(context, { uploads: { maxBodySize: 1024 } }).catch((e) => e);
+
+      expect(error.status).toBe(413);
+    });
+
+    test("Content-Length가 없고 제한 이내이면 원본 요청 본문을 파싱", async () => {
+      const context = createMockContext({
+        contentType: "application/x-www-form-urlencoded",
+        rawBody: "tags[]=a&tags[]=b"
+      });
+
+      const result = await parseParams(context, { uploads: { maxBodySize: 1024 } });
+
+      expect(result).toEqual({ tags: ["a", "b"] });
+    });
+
+    test("허용되지 않는 파일 형식은 415", async () => {
+      const context = createMockContext({
+        contentType: "multipart/form-data",
+        formData: createFormData({ file: new File(["MZ"], "run.exe", { type: "application/x-msdownload" }) })
+      });
+
+      const error = await parseParams(context, { uploads: { allowedTypes: ["image/*"] } }).catch((e) => e);
+
+      expect(error.status).toBe(415);
+    });
+  });
+
+  describe("그 외 Content-Type 본문", () => {
+    test("text/plain 본문은 text 키로 반환", async () => {
+      const context = createMockContext({
+        query: { source: "web" },
+        contentType: "text/plain; charset=utf-8",
+        rawBody: "hello"
+      });
+
+      const result = await parseParams(context);
+
+      expect(result).toEqual({ source: "web", text: "hello" });
+    });
+
+    test("XML 웹훅 본문 파싱", async () => {
+      const context = createMockContext({
+        contentType: "application/xml",
+        rawBody: "<xml><event>paid</event><amount>100</amount></xml>"
+      });
+
+      const result = await parseParams(context, { coerce: true });
+
+      expect(result).toEqual({ event: "paid", amount: "100" });
+    });
+
+    test("벤더 +json 형식 파싱", async () => {
+      const context = createMockContext({
+        contentType: "application/vnd.api+json",
+        rawBody: '{"type":"users","id":"1"}'
+      });
+
+      const result = await parseParams(context);
+
+      expect(result).toEqual({ type: "users", id: "1" });
+    });
+
+    test("지원하지 않는 Content-Type의 본문은 415", async () => {
+      const context = createMockContext({
+        contentType: "application/octet-stream",
+        rawBody: "binary"
+      });
+
+      const error = await parseParams(context).catch((e) => e);
+
+      expect(error).toBeInstanceOf(StatusError);
+      expect(error.status).toBe(415);
+      expect(error.message).toBe("Unsupported content type 'application/octet-stream'");
+    });
+
+    test("본문이 없으면 지원하지 않는 Content-Type도 무시", async () => {
+      const context = createMockContext({
+        query: { name: "John" },
+        contentType: "application/octet-stream"
+      });
+
+      const result = await parseParams(context);
+
+      expect(result).toEqual({ name: "John" });
+    });
+
+    test("bodyParsers 옵션과 registerBodyParser", async () => {
+      const context = createMockContext({
+        contentType: "text/csv",
+        rawBody: "a,b"
+      });
+
+      const local = await parseParams(context, {
+        bodyParsers: [{ match: "text/csv", parse: async (body) => ({ columns: (await body.text()).split(",") }) }]
+      });
+      expect(local).toEqual({ columns: ["a", "b"] });
+
+      const unregister = registerBodyParser("text/csv", async (body) => ({ raw: await body.text() }));
+      try {
+        expect(await parseParams(context)).toEqual({ raw: "a,b" });
+      } finally {
+        unregister();
+      }
+    });
+
+    test("등록한 파서가 JSON 내장 처리보다 우선", async () => {
+      const context = createMockContext({
+        contentType: "application/json",
+        jsonData: { a: 1 }
+      });
+
+      const result = await parseParams(context, {
+        bodyParsers: [{ match: "application/json", parse: async (body) => ({ wrapped: await body.json() }) }]
+      });
+
+      expect(result).toEqual({ wrapped: { a: 1 } });
+    });
+  });
+
+  describe("본문 재사용", () => {
+    test("같은 Context에서 여러 번 호출해도 본문은 한 번만 읽음", async () => {
+      let readCount = 0;
+      const context = createMockContext({
+        contentType: "application/json"
+      });
+      context.req.json = async () => {
+        readCount += 1;
+        return { name: "Alice", age: 30 };
+      };
+
+      const first = await parseParams(context);
+      const second = await parseParams(context, { selects: ["name"] });
+
+      expect(first).toEqual({ name: "Alice", age: 30 });
+      expect(second).toEqual({ name: "Alice" });
+      expect(readCount).toBe(1);
+    });
+
+    test("다른 Context는 각자 본문을 읽음", async () => {
+      const first = createMockContext({ contentType: "application/json", jsonData: { n: 1 } });
+      const second = createMockContext({ contentType: "application/json", jsonData: { n: 2 } });
+
+      expect(await parseParams(first)).toEqual({ n: 1 });
+      expect(await parseParams(second)).toEqual({ n: 2 });
+    });
+  });
+
+  describe("파라미터 정리", () => {
+    test("JSON 본문의 __proto__ 키는 기본으로 제거", async () => {
+      const context = createMockContext({
+        contentType: "application/json",
+        jsonData: JSON.parse('{"__proto__":{"admin":true},"profile":{"constructor":{"prototype":{"admin":true}}},"name":"a"}')
+      });
+
+      const result = await parseParams(context);
+
+      expect(result).toEqual({ profile: {}, name: "a" });
+      expect(result.admin).toBeUndefined();
+      expect(({} as any).admin).toBeUndefined();
+    });
+
+    test("query의 중첩 키로 전달된 __proto__도 제거", async () => {
+      const context = createMockContext({
+        search: "__proto__[admin]=1&user[constructor][x]=1&user[name]=a"
+      });
+
+      const result = await parseParams(context);
+
+      expect(result).toEqual({ user: { name: "a" } });
+    });
+
+    test("dangerousKeys가 reject면 400 오류", async () => {
+      const context = createMockContext({
+        contentType: "application/json",
+        jsonData: JSON.parse('{"__proto__":{"admin":true}}')
+      });
+
+      const error = await parseParams(context, { sanitize: { dangerousKeys: "reject" } }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(StatusError);
+      expect(error.status).toBe(400);
+      expect(error.message).toBe("Parameter '__proto__' is not allowed");
+    });
+
+    test("trim은 타입 변환보다 먼저 적용", async () => {
+      const context = createMockContext({
+        query: { name: "  John ", age: " 30 " }
+      });
+
+      const result = await parseParams(context, { sanitize: { trim: true }, coerce: true });
+
+      expect(result).toEqual({ name: "John", age: 30 });
+    });
+
+    test("maxDepth, maxKeys 제한을 넘으면 400 오류", async () => {
+      const deep = createMockContext({ search: "a[b][c]=1" });
+      const many = createMockContext({ search: "a=1&b=2&c=3" });
+
+      const depthError = await parseParams(deep, { sanitize: { maxDepth: 1 } }).catch((e) => e);
+      const keysError = await parseParams(many, { sanitize: { maxKeys: 2 } }).catch((e) => e);
+
+      expect(depthError.status).toBe(400);
+      expect(depthError.message).toBe("Parameter 'a.b' exceeds the maximum depth of 1");
+      expect(keysError.status).toBe(400);
+      expect(keysError.message).toBe("Too many parameters: maximum is 2");
+    });
+
+    test("쿼리와 폼의 bracket 키가 너무 깊으면 sanitize 옵션 없이도 400 오류", async () => {
+      const key = `a${"[b]".repeat(20_000)}`;
+      const query = createMockContext({ search: `${key}=1` });
+      const form = createMockContext({
+        contentType: "application/x-www-form-urlencoded",
+        formData: createFormData([[key, "1"]])
+      });
+
+      const queryError = await parseParams(query).catch((e) => e);
+      const formError = await parseParams(form).catch((e) => e);
+
+      expect(queryError).toBeInstanceOf(StatusError);
+      expect(queryError.status).toBe(400);
+      expect(formError).toBeInstanceOf(StatusError);
+      expect(formError.status).toBe(400);
+    });
+
+    test("maxDepth는 bracket 키를 중첩 객체로 만드는 중에 적용", async () => {
+      const key = `a${"[b]".repeat(20_000)}`;
+      const query = createMockContext({ search: `${key}=1` });
+      const form = createMockContext({
+        contentType: "application/x-www-form-urlencoded",
+        formData: createFormData([[key, "1"]])
+      });
+
+      const queryError = await parseParams(query, { sanitize: { maxDepth: 2 } }).catch((e) => e);
+      const formError = await parseParams(form, { sanitize: { maxDepth: 2 } }).catch((e) => e);
+
+      expect(queryError.status).toBe(400);
+      expect(queryError.message).toBe("Parameter 'a.b.b' exceeds the maximum depth of 2");
+      expect(formError.status).toBe(400);
+      expect(formError.message).toBe("Parameter 'a.b.b' exceeds the maximum depth of 2");
+    });
+
+    test("unknownKeys가 forbid면 selects에 없는 필드를 422 ValidationError로 보고", async () => {
+      const context = createMockContext({
+        query: { name: "John", role: "admin", extra: "x" }
+      });
+
+      const error = await parseParams(context, { selects: ["name"], unknownKeys: "forbid" }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.errors).toEqual([
+        { field: "role", rule: "unknown", message: "Unknown field 'role' is not allowed" },
+        { field: "extra", rule: "unknown", message: "Unknown field 'extra' is not allowed" }
+      ]);
+    });
+
+    test("unknownKeys 기본값은 strip", async () => {
+      const context = createMockContext({
+        query: { name: "John", role: "admin" }
+      });
+
+      expect(await parseParams(context, { selects: ["name"] })).toEqual({ name: "John" });
+    });
+  });
+
+  describe("압축된 본문", () => {
+    // 실제 Hono 앱으로 요청을 보내고 parseParams의 결과 또는 오류를 반환
+    async function parseRequest(init: RequestInit, options?: Parameters<typeof parseParams>[1]): Promise<any> {
+      let result: unknown;
+      const app = new Hono();
+      app.post("/test", async (c) => {
+        result = await parseParams(c, options).catch((e) => e);
+        return c.body(null, 204);
+      });
+      await app.request("/test", { method: "POST", ...init });
+      return result;
+    }
+
+    test("gzip으로 압축된 JSON 본문", async () => {
+      const result = await parseRequest({
+        headers: { "content-type": "application/json", "content-encoding": "gzip" },
+        body: gzipSync(JSON.stringify({ name: "John", age: 30 }))
+      });
+
+      expect(result).toEqual({ name: "John", age: 30 });
+    });
+
+    test("br로 압축된 form 본문도 coerce 적용", async () => {
+      const result = await parseRequest(
+        {
+          headers: { "content-type": "application/x-www-form-urlencoded", "content-encoding": "br" },
+          body: brotliCompressSync("name=John&age=30")
+        },
+        { coerce: true }
+      );
+
+      expect(result).toEqual({ name: "John", age: 30 });
+    });
+
+    test("압축 해제 크기 제한을 넘으면 413", async () => {
+      const error = await parseRequest(
+        {
+          headers: { "content-type": "application/json", "content-encoding": "gzip" },
+          body: gzipSync(JSON.stringify({ data: "x".repeat(10_000) }))
+        },
+        { decompress: { maxSize: 1000 } }
+      );
+
+      expect(error).toBeInstanceOf(StatusError);
+      expect(error.status).toBe(413);
+    });
+
+    test("uploads.maxBodySize를 압축 해제 크기 제한으로 사용", async () => {
+      const error = await parseRequest(
+        {
+          headers: { "content-type": "application/json", "content-encoding": "gzip" },
+          body: gzipSync(JSON.stringify({ data: "x".repeat(10_000) }))
+        },
+        { uploads: { maxBodySize: 1000 } }
+      );
+
+      expect(error.status).toBe(413);
+      expect(error.message).toBe("Decompressed request body exceeds the maximum size of 1000 bytes");
+    });
+
+    test("지원하지 않는 인코딩이나 decompress: false면 415", async () => {
+      const unsupported = await parseRequest({
+        headers: { "content-type": "application/json", "content-encoding": "compress" },
+        body: "{}"
+      });
+      const disabled = await parseRequest(
+        {
+          headers: { "content-type": "application/json", "content-encoding": "gzip" },
+          body: gzipSync("{}")
+        },
+        { decompress: false }
+      );
+
+      expect(unsupported.status).toBe(415);
+      expect(unsupported.message).toBe("Unsupported content encoding 'compress'");
+      expect(disabled.status).toBe(415);
+      expect(disabled.message).toBe("Unsupported content encoding 'gzip'");
+    });
+
+    test("Content-Encoding이 identity면 그대로 읽음", async () => {
+      const result = await parseRequest({
+        headers: { "content-type": "application/json", "content-encoding": "identity" },
+        body: JSON.stringify({ name: "John" })
+      });
+
+      expect(result).toEqual({ name: "John" });
+    });
+  });
 });
@@ -1,5 +1,79 @@
 import { type Context } from "hono";
-import { StatusError } from "./common";
+import { getCookie } from "hono/cookie";
+import {
+  DEFAULT_MAX_DECOMPRESSED_SIZE,
+  decompressBody,
+  findBodyParser,
+  getMediaType,
+  parseContentEncoding,
+  type BodyParserEntry,
+  type BodySource,
+} from "./bodyParser";
+import { StatusError, ValidationError, type FieldError, type MutableObject } from "./common";
+import { createCodedError } from "./errorMessages";
+import { parseNestedEntries } from "./formHelper";
+import { coerceParams, type CoerceOptions } from "./paramCoercion";
+import { sanitizeParams, type SanitizeOptions } from "./paramSanitizer";
+import { toFieldErrors, validateSchema, type InferSchemaOutput, type StandardSchemaV1 } from "./paramSchema";
+import { isPlainObject } from "./simpleMethods";
+import { assertContentLength, checkUploadLimits, readStreamWithLimit, type UploadLimits } from "./uploadHelper";
+
+/**
+ * 파라미터를 가져오는 요청 소스
+ * - path: 경로 파라미터 (c.req.param())
+ * - body: JSON, form 등 요청 본문
+ * - query: query string
+ * - cookie: 쿠키
+ * - header: 요청 헤더
+ */
+export type ParamSource = "path" | "body" | "query" | "cookie" | "header";
+
+const DEFAULT_PRECEDENCE: ParamSource[] = ["path", "body", "query", "cookie", "header"];
+
+/**
+ * parseParams 옵션
+ */
+export type ParseParamsOptions = {
+  /** 반환할 필드명 배열 */
+  selects?: string[];
+  /** 필수 필드명 배열 */
+  requires?: string[];
+  /** Standard Schema 호환 검증기 (zod, valibot, 내장 schema 등) */
+  schema?: StandardSchemaV1;
+  /** query, form 값의 타입 변환 옵션 (JSON body에는 적용되지 않음) */
+  coerce?: CoerceOptions;
+  /**
+   * query, form의 bracket 키(user[name], tags[])와 반복 키(tags=a&tags=b)를 중첩 객체와 배열로 변환 (기본값: true)
+   * false면 키를 그대로 사용하고 반복 키는 하나의 값만 남습니다.
+   */
+  nested?: boolean;
+  /** 경로 파라미터(c.req.param())를 포함할지 여부 (기본값: false) */
+  path?: boolean;
+  /** 포함할 헤더. 배열이면 헤더 이름을 그대로 키로 사용하고, 객체면 { 헤더이름: 파라미터키 } 로 매핑 */
+  headers?: string[] | Record<string, string>;
+  /** 포함할 쿠키. true면 전체, 배열이면 지정한 쿠키만, 객체면 { 쿠키이름: 파라미터키 } 로 매핑 */
+  cookies?: true | string[] | Record<string, string>;
+  /** 같은 키가 여러 소스에 있을 때의 우선순위. 앞에 올수록 우선 (기본값: ["path", "body", "query", "cookie", "header"]) */
+  precedence?: ParamSource[];
+  /** true면 같은 키가 여러 소스에서 서로 다른 값으로 들어올 때 400 에러 (기본값: false) */
+  strict?: boolean;
+  /** multipart/form-data 업로드 제한 (본문 크기, 파일 크기, 개수, 형식) */
+  uploads?: UploadLimits;
+  /** 이 호출에서만 사용할 본문 파서. 등록된 파서와 내장 파서보다 우선 */
+  bodyParsers?: BodyParserEntry[];
+  /**
+   * 압축된 본문(Content-Encoding: gzip, deflate, br) 처리 (기본값: true)
+   * maxSize는 압축 해제 후 허용할 최대 바이트 수 (기본값: uploads.maxBodySize 또는 10MB). false면 압축된 본문은 415
+   */
+  decompress?: boolean | { maxSize?: number };
+  /**
+   * 파라미터 정리 옵션. 지정하지 않아도 __proto__, constructor, prototype 키는 제거됩니다
+   * maxDepth(기본값: DEFAULT_MAX_DEPTH)는 쿼리와 폼의 bracket 키를 중첩 객체로 만드는 중에도 적용됩니다
+   */
+  sanitize?: SanitizeOptions;
+  /** selects에 없는 필드 처리 방식. "strip"은 제거(기본값), "forbid"는 422 ValidationError */
+  unknownKeys?: "strip" | "forbid";
+};
 
 /**
  * HTTP 요청에서 파라미터를 파싱하고 검증
@@ -7,75 +81,318 @@ import { StatusError } from "./common";
  * @param options - 파싱 옵션
  * @param options.selects - 반환할 필드명 배열
  * @param options.requires - 필수 필드명 배열
+ * @param options.schema - 파싱 결과를 검증할 스키마. 지정하면 검증된 값이 타입과 함께 반환됩니다
+ * @param options.coerce - 문자열로 전달되는 query, form 값의 타입 변환 규칙
+ * @param options.nested - bracket 키와 반복 키를 중첩 객체와 배열로 변환할지 여부 (기본값: true)
+ * @param options.path - 경로 파라미터 포함 여부
+ * @param options.headers - 포함할 헤더 목록
+ * @param options.cookies - 포함할 쿠키 목록
+ * @param options.precedence - 소스 간 우선순위 (앞에 올수록 우선)
+ * @param options.strict - 소스 간 값 충돌 시 400 에러 발생 여부
+ * @param options.uploads - 업로드 제한. 크기나 개수 초과 시 413, 허용되지 않는 형식이면 415
+ * @param options.bodyParsers - Content-Type별 본문 파서 (text/plain, XML, NDJSON, +json 등은 기본 지원)
+ * @param options.decompress - gzip, deflate, br로 압축된 본문의 압축 해제 여부와 최대 크기
+ * @param options.sanitize - 위험한 키 처리, 공백 제거, 깊이와 키 개수 제한
+ * @param options.unknownKeys - selects에 없는 필드를 제거할지("strip") 오류로 볼지("forbid")
  * @returns 파싱된 파라미터 객체
- * @throws {StatusError} 필수 필드 누락 또는 파싱 실패 시
+ * @throws {StatusError} 파싱 실패, strict 모드의 값 충돌 또는 sanitize 제한 위반 시 400, 업로드 제한 위반 또는 압축 해제 크기 초과 시 413/415,
+ * 지원하지 않는 Content-Type 또는 Content-Encoding의 본문이면 415
+ * @throws {ValidationError} 필수 필드 누락, 허용되지 않은 필드 또는 스키마 검증 실패 시 422 (모든 필드 오류를 errors에 담음)
+ * @example
+ * const { name, age } = await parseParams(c, {
+ *   schema: schema.object({ name: schema.string(), age: schema.number() })
+ * });
  */
-export async function parseParams(
+export async function parseParams<S extends StandardSchemaV1>(
   c: Context,
-  options?: {
-    selects?: string[];
-    requires?: string[];
-  }
-): Promise<Record<string, any>> {
-  let params: any = {};
+  options: ParseParamsOptions & { schema: S }
+): Promise<InferSchemaOutput<S>>;
+export async function parseParams(c: Context, options?: ParseParamsOptions): Promise<Record<string, any>>;
+export async function parseParams(c: Context, options?: ParseParamsOptions): Promise<any> {
+  const nested = options?.nested !== false;
+  const sources: Partial<Record<ParamSource, MutableObject>> = {};
+
+  // 위험한 키 제거, 공백 제거 등을 먼저 적용하고, 문자열로 전달되는 소스만 타입 변환
+  const prepare = (values: MutableObject, coercible: boolean) => {
+    const sanitized = sanitizeParams(values, options?.sanitize);
+    return coercible ? coerceParams(sanitized, options?.coerce) : sanitized;
+  };
 
-  // Query parameters 가져오기
-  const queryParams = c.req.query();
-  params = { ...params, ...queryParams };
+  // Query parameters 가져오기 (깊이 제한은 중첩 객체를 만드는 중에 적용)
+  const rawQueryParams = nested ? parseNestedEntries(new URL(c.req.url).searchParams, options?.sanitize?.maxDepth) : c.req.query();
+  sources.query = prepare(rawQueryParams, true);
 
   // Content-Type에 따라 body 데이터 파싱
+  const body = await readBodyParams(c, nested, options);
+  sources.body = prepare(body.values, body.coercible);
+
+  // 경로 파라미터, 헤더, 쿠키는 옵션으로 지정한 경우에만 포함
+  if (options?.path) {
+    sources.path = prepare(c.req.param() as MutableObject, true);
+  }
+  if (options?.headers) {
+    sources.header = prepare(pickHeaders(c, options.headers), true);
+  }
+  if (options?.cookies) {
+    sources.cookie = prepare(pickCookies(c, options.cookies), true);
+  }
+
+  let params: any = mergeSources(sources, options?.precedence, options?.strict ?? false);
+
+  // 필수 필드 검증 (모든 누락 필드를 모아서 보고)
+  const fieldErrors: FieldError[] = [];
+  if (options?.requires) {
+    for (const field of options.requires) {
+      const value = params[field];
+      if (value === undefined || value === null || value === '') {
+        fieldErrors.push({ field, rule: "required", message: `Required field '${field}' is missing or empty` });
+      }
+    }
+  }
+
+  // 선택된 필드만 반환 (unknownKeys가 "forbid"면 selects에 없는 필드를 오류로 보고)
+  if (options?.selects && options.selects.length > 0) {
+    if (options.unknownKeys === "forbid") {
+      for (const field of Object.keys(params)) {
+        if (!options.selects.includes(field)) {
+          fieldErrors.push({ field, rule: "unknown", message: `Unknown field '${field}' is not allowed` });
+        }
+      }
+    }
+    const selectedParams: Record<string, any> = {};
+    for (const field of options.selects) {
+      if (params[field] !== undefined) {
+        selectedParams[field] = params[field];
+      }
+    }
+    params = selectedParams;
+  }
+
+  // 스키마 검증
+  if (options?.schema) {
+    const result = await validateSchema(options.schema, params);
+    if (result.issues) {
+      for (const fieldError of toFieldErrors(result.issues)) {
+        // requires와 스키마가 같은 필드를 중복 보고하지 않도록 함
+        if (!fieldErrors.some((e) => e.field === fieldError.field && e.rule === fieldError.rule)) {
+          fieldErrors.push(fieldError);
+        }
+      }
+    } else if (fieldErrors.length === 0) {
+      return result.value;
+    }
+  }
+
+  if (fieldErrors.length > 0) {
+    throw new ValidationError(fieldErrors);
+  }
+
+  return params;
+}
+
+// coercible: form처럼 값이 모두 문자열이라 타입 변환 대상인지 여부
+async function readBodyParams(
+  c: Context,
+  nested: boolean,
+  options: ParseParamsOptions | undefined
+): Promise<{ values: MutableObject; coercible: boolean }> {
   const contentType = c.req.header("content-type") || "";
+  const mediaType = getMediaType(contentType);
+  const limits = options?.uploads;
+  assertContentLength(c.req.header("content-length"), limits?.maxBodySize);
+
+  // 압축된 본문은 압축을 푼 Request에서 읽음
+  const decoded = parseContentEncoding(c.req.header("content-encoding")).length > 0
+    ? await readBodyOnce(c, "decoded", () => readDecodedBody(c, contentType, options))
+    : undefined;
+  const source: BodySource = decoded ?? c.req;
+
+  // 호출 시 전달하거나 registerBodyParser로 등록한 파서가 내장 처리보다 우선
+  const customParser = mediaType ? findBodyParser(mediaType, options?.bodyParsers, { builtIn: false }) : undefined;
+  if (customParser) {
+    return { values: { ...(await readBodyOnce(c, customParser, () => customParser(source, mediaType))) }, coercible: false };
+  }
 
   if (contentType.includes("application/json")) {
     try {
-      const jsonData = await c.req.json();
-      params = { ...params, ...jsonData };
+      const jsonData = await readBodyOnce(c, "json", () => source.json());
+      return { values: { ...jsonData }, coercible: false };
     } catch (e) {
       // JSON 파싱 실패시
-      throw new StatusError("Invalid JSON format in request body", 400);
+      throw createCodedError("INVALID_JSON_BODY", 400);
     }
   } else if (
     contentType.includes("application/x-www-form-urlencoded") ||
     contentType.includes("multipart/form-data")
   ) {
+    let formData: FormData;
     try {
-      const formData = await c.req.formData();
-      const formObject: any = {};
+      formData = await readBodyOnce(c, "form", () => (decoded ? readRequestFormData(decoded) : readFormData(c, contentType, limits)));
+    } catch (e) {
+      if (e instanceof StatusError) {
+        throw e;
+      }
+      throw createCodedError("INVALID_FORM_DATA", 400);
+    }
+
+    // 파일 크기, 개수, 형식 제한 확인
+    if (limits) {
+      await checkUploadLimits(formData.entries(), limits);
+    }
+
+    // 파일(File)은 그대로 두고, 문자열 값은 coerce 옵션에 따라 아래에서 변환
+    let formObject: any = {};
+    if (nested) {
+      formObject = parseNestedEntries(formData.entries(), options?.sanitize?.maxDepth);
+    } else {
       formData.forEach((value, key) => {
-        // 파일 업로드와 일반 값 구분
-        if (value instanceof File) {
-          formObject[key] = value;
-        } else {
-          // 숫자나 불린 값 자동 변환 고려
-          formObject[key] = value;
-        }
+        formObject[key] = value;
       });
-      params = { ...params, ...formObject };
-    } catch (e) {
-      throw new StatusError("Invalid form data format", 400);
     }
+    return { values: formObject, coercible: true };
   }
 
-  // 필수 필드 검증
-  if (options?.requires) {
-    for (const field of options.requires) {
-      const value = params[field];
-      if (value === undefined || value === null || value === '') {
-        throw new StatusError(`Required field '${field}' is missing or empty`, 400);
-      }
+  // 그 외 형식은 본문이 있을 때만 등록된 파서로 처리하고, 파서가 없으면 415
+  if (!mediaType || !hasRequestBody(c)) {
+    return { values: {}, coercible: false };
+  }
+  const parser = findBodyParser(mediaType);
+  if (!parser) {
+    throw createCodedError("UNSUPPORTED_CONTENT_TYPE", 415, { contentType: mediaType });
+  }
+  return { values: { ...(await readBodyOnce(c, parser, () => parser(source, mediaType))) }, coercible: false };
+}
+
+// 같은 요청에서 parseParams를 여러 번 호출해도 (미들웨어와 핸들러 등) 본문은 한 번만 읽도록 Context별로 보관
+const bodyCache = new WeakMap<Context, Map<unknown, Promise<any>>>();
+
+function readBodyOnce<T>(c: Context, key: unknown, read: () => T | Promise<T>): Promise<T> {
+  let cache = bodyCache.get(c);
+  if (!cache) {
+    cache = new Map();
+    bodyCache.set(c, cache);
+  }
+  let cached = cache.get(key);
+  if (!cached) {
+    cached = Promise.resolve().then(read);
+    cache.set(key, cached);
+  }
+  return cached;
+}
+
+function hasRequestBody(c: Context): boolean {
+  const contentLength = c.req.header("content-length");
+  if (contentLength !== undefined) {
+    return Number(contentLength) > 0;
+  }
+  return Boolean(c.req.header("transfer-encoding")) || Boolean(c.req.raw?.body);
+}
+
+// Content-Length 없이 들어오는 요청은 본문을 읽으면서 크기를 제한
+async function readFormData(c: Context, contentType: string, limits: UploadLimits | undefined): Promise<FormData> {
+  const body = c.req.raw?.body;
+  if (limits?.maxBodySize !== undefined && !c.req.header("content-length") && body) {
+    const bytes = await readStreamWithLimit(body, limits.maxBodySize);
+    return await readRequestFormData(new Request(c.req.url, { method: "POST", headers: { "content-type": contentType }, body: bytes }));
+  }
+  return await c.req.formData();
+}
+
+async function readRequestFormData(request: Request): Promise<FormData> {
+  // Bun과 Node의 FormData 타입 정의가 달라 전역 FormData로 맞춤
+  return (await request.formData()) as unknown as FormData;
+}
+
+// 압축된 본문을 읽어 압축을 풀고, 풀린 본문을 담은 Request로 반환
+async function readDecodedBody(c: Context, contentType: string, options: ParseParamsOptions | undefined): Promise<Request> {
+  const contentEncoding = c.req.header("content-encoding") as string;
+  if (options?.decompress === false) {
+    throw createCodedError("UNSUPPORTED_CONTENT_ENCODING", 415, { encoding: parseContentEncoding(contentEncoding)[0] });
+  }
+  const maxBodySize = options?.uploads?.maxBodySize;
+  const maxSize = (typeof options?.decompress === "object" ? options.decompress.maxSize : undefined) ?? maxBodySize ?? DEFAULT_MAX_DECOMPRESSED_SIZE;
+
+  const body = c.req.raw?.body;
+  const compressed = maxBodySize !== undefined && !c.req.header("content-length") && body
+    ? await readStreamWithLimit(body, maxBodySize)
+    : new Uint8Array(await c.req.arrayBuffer());
+  const bytes = await decompressBody(compressed, contentEncoding, maxSize);
+  return new Request(c.req.url, { method: "POST", headers: { "content-type": contentType }, body: bytes });
+}
+
+// 배열이면 이름을 그대로 키로, 객체면 { 원본이름: 파라미터키 } 로 매핑
+function toNameMap(names: string[] | Record<string, string>): [string, string][] {
+  return Array.isArray(names) ? names.map((name) => [name, name]) : Object.entries(names);
+}
+
+function pickHeaders(c: Context, headers: string[] | Record<string, string>): MutableObject {
+  const picked: MutableObject = {};
+  for (const [headerName, key] of toNameMap(headers)) {
+    const value = c.req.header(headerName);
+    if (value !== undefined) {
+      picked[key] = value;
     }
   }
+  return picked;
+}
 
-  // 선택된 필드만 반환
-  if (options?.selects && options.selects.length > 0) {
-    const selectedParams: Record<string, any> = {};
-    for (const field of options.selects) {
-      if (params[field] !== undefined) {
-        selectedParams[field] = params[field];
-      }
+function pickCookies(c: Context, cookies: true | string[] | Record<string, string>): MutableObject {
+  const allCookies = getCookie(c);
+  if (cookies === true) {
+    return { ...allCookies };
+  }
+  const picked: MutableObject = {};
+  for (const [cookieName, key] of toNameMap(cookies)) {
+    const value = allCookies[cookieName];
+    if (value !== undefined) {
+      picked[key] = value;
     }
-    return selectedParams;
   }
+  return picked;
+}
 
-  return params;
-}
\ No newline at end of file
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isSameValue(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const aKeys = Object.keys(a as MutableObject);
+    const bKeys = Object.keys(b as MutableObject);
+    return aKeys.length === bKeys.length && aKeys.every((key) => isSameValue((a as MutableObject)[key], (b as MutableObject)[key]));
+  }
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  return false;
+}
+
+// 우선순위가 낮은 소스부터 덮어써서 병합
+function mergeSources(
+  sources: Partial<Record<ParamSource, MutableObject>>,
+  precedence: ParamSource[] = DEFAULT_PRECEDENCE,
+  strict: boolean
+): MutableObject {
+  const order = [...precedence, ...DEFAULT_PRECEDENCE.filter((source) => !precedence.includes(source))];
+  const merged: MutableObject = {};
+  // toString 같은 상속 속성을 기존 키로 보지 않도록 Map으로 출처를 기록
+  const origins = new Map<string, ParamSource>();
+
+  for (const source of [...order].reverse()) {
+    const values = sources[source];
+    if (!values) {
+      continue;
+    }
+    for (const [key, value] of Object.entries(values)) {
+      const origin = origins.get(key);
+      if (strict && origin && Object.hasOwn(merged, key) && !isSameValue(merged[key], value)) {
+        throw createCodedError("CONFLICTING_PARAMETER", 400, { field: key, source, origin });
+      }
+      Object.defineProperty(merged, key, { value, writable: true, enumerable: true, configurable: true });
+      origins.set(key, source);
+    }
+  }
+  return merged;
+}
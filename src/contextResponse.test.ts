@@ -1,7 +1,25 @@
-import { describe, test, expect } from "bun:test";
-import { responseJsonError, responseTextError, responseHtmlError } from "./contextResponse";
-import { StatusError } from "./common";
+import { describe, test, expect, spyOn, afterEach } from "bun:test";
+import {
+  formatContentDisposition,
+  formatServerSentEvent,
+  responseCreated,
+  responseCsv,
+  responseEventStream,
+  responseHtmlError,
+  responseJson,
+  responseJsonError,
+  responseNdjson,
+  responseNoContent,
+  responsePaginated,
+  responseProblemError,
+  responseTextError,
+  setSuccessEnvelope,
+} from "./contextResponse";
+import { encodeCursor, type ListParams } from "./listParams";
+import { StatusError, ValidationError } from "./common";
 import type { FC } from "hono/jsx";
+import { html } from "hono/html";
+import { AsyncErrorPage, BrokenAsyncComponent, ErrorPage } from "./testComponents";
 
 describe("responseJsonError", () => {
   describe("StatusError 처리", () => {
@@ -13,7 +31,7 @@ describe("responseJsonError", () => {
       expect(response.headers.get('Content-Type')).toBe('application/json');
 
       const body = await response.json();
-      expect(body).toEqual({ status: 404, message: "Not Found" });
+      expect(body).toEqual({ status: 404, message: "Not Found", errorId: expect.any(String) });
     });
 
     test("StatusError의 다양한 상태 코드 처리", async () => {
@@ -30,7 +48,7 @@ describe("responseJsonError", () => {
 
         expect(response.status).toBe(testCase.status);
         const body = await response.json();
-        expect(body).toEqual({ status: testCase.status, message: testCase.message });
+        expect(body).toEqual({ status: testCase.status, message: testCase.message, errorId: expect.any(String) });
       }
     });
 
@@ -40,7 +58,7 @@ describe("responseJsonError", () => {
 
       expect(response.status).toBe(418);
       const body = await response.json();
-      expect(body).toEqual({ status: 418, message: "Teapot" });
+      expect(body).toEqual({ status: 418, message: "Teapot", errorId: expect.any(String) });
     });
   });
 
@@ -51,7 +69,7 @@ describe("responseJsonError", () => {
 
       expect(response.status).toBe(500);
       const body = await response.json();
-      expect(body).toEqual({ status: 500, message: "Something went wrong" });
+      expect(body).toEqual({ status: 500, message: "Something went wrong", errorId: expect.any(String) });
     });
 
     test("TypeError 처리", async () => {
@@ -60,7 +78,7 @@ describe("responseJsonError", () => {
 
       expect(response.status).toBe(500);
       const body = await response.json();
-      expect(body).toEqual({ status: 500, message: "Type error occurred" });
+      expect(body).toEqual({ status: 500, message: "Type error occurred", errorId: expect.any(String) });
     });
 
     test("ReferenceError 처리", async () => {
@@ -69,7 +87,7 @@ describe("responseJsonError", () => {
 
       expect(response.status).toBe(500);
       const body = await response.json();
-      expect(body).toEqual({ status: 500, message: "Reference error occurred" });
+      expect(body).toEqual({ status: 500, message: "Reference error occurred", errorId: expect.any(String) });
     });
   });
 
@@ -80,7 +98,7 @@ describe("responseJsonError", () => {
 
       expect(response.status).toBe(400);
       const body = await response.json();
-      expect(body).toEqual({ status: 400, message: "Bad Request" });
+      expect(body).toEqual({ status: 400, message: "Bad Request", errorId: expect.any(String) });
     });
 
     test("transform 함수로 JSON 응답을 변환", async () => {
@@ -121,7 +139,7 @@ describe("responseJsonError", () => {
 
       expect(response.status).toBe(500);
       const body = await response.json();
-      expect(body).toEqual({ status: 500, message: "" });
+      expect(body).toEqual({ status: 500, message: "", errorId: expect.any(String) });
     });
 
     test("긴 메시지를 가진 Error 처리", async () => {
@@ -131,7 +149,7 @@ describe("responseJsonError", () => {
 
       expect(response.status).toBe(400);
       const body = await response.json();
-      expect(body).toEqual({ status: 400, message: longMessage });
+      expect(body).toEqual({ status: 400, message: longMessage, errorId: expect.any(String) });
     });
 
     test("특수 문자가 포함된 메시지 처리", async () => {
@@ -141,7 +159,7 @@ describe("responseJsonError", () => {
 
       expect(response.status).toBe(400);
       const body = await response.json();
-      expect(body).toEqual({ status: 400, message: specialMessage });
+      expect(body).toEqual({ status: 400, message: specialMessage, errorId: expect.any(String) });
     });
   });
 
@@ -180,7 +198,7 @@ describe("responseJsonError", () => {
 
       expect(response.status).toBe(418);
       const body = await response.json();
-      expect(body).toEqual({ status: 418, message: "Custom error" });
+      expect(body).toEqual({ status: 418, message: "Custom error", errorId: expect.any(String) });
     });
 
     test("status 속성이 없는 객체는 일반 Error로 처리", async () => {
@@ -193,9 +211,224 @@ describe("responseJsonError", () => {
 
       expect(response.status).toBe(500);
       const body = await response.json();
-      expect(body).toEqual({ status: 500, message: "Custom error without status" });
+      expect(body).toEqual({ status: 500, message: "Custom error without status", errorId: expect.any(String) });
     });
   });
+
+  describe("ValidationError 처리", () => {
+    test("필드 오류를 errors 배열로 반환", async () => {
+      const errors = [
+        { field: "email", rule: "required", message: "Required field 'email' is missing or empty" },
+        { field: "age", rule: "type", message: "Expected number, received string" }
+      ];
+      const response = responseJsonError(new ValidationError(errors));
+
+      expect(response.status).toBe(422);
+      const body = await response.json();
+      expect(body).toEqual({
+        status: 422,
+        message: "Validation failed: Required field 'email' is missing or empty; age: Expected number, received string",
+        errors,
+        errorId: expect.any(String)
+      });
+    });
+
+    test("transform 함수에 errors가 전달됨", async () => {
+      const error = new ValidationError([{ field: "name", rule: "required", message: "Required" }]);
+      const response = responseJsonError(error, (json) => ({ fields: json.errors?.map((e) => e.field) }));
+
+      const body = await response.json();
+      expect(body).toEqual({ fields: ["name"] });
+    });
+
+    test("다른 honopang 사본에서 만든 ValidationError도 errors 포함", async () => {
+      const foreign = Object.assign(new Error("Invalid"), {
+        status: 422,
+        errors: [{ field: "name", rule: "required", message: "Required" }],
+        [Symbol.for("honopang.StatusError")]: true,
+        [Symbol.for("honopang.ValidationError")]: true
+      });
+
+      const body: any = await responseJsonError(foreign).json();
+      expect(body.errors).toEqual(foreign.errors);
+    });
+  });
+
+  describe("오류 코드, 추가 정보, 헤더", () => {
+    test("code와 details를 JSON에 포함", async () => {
+      const error = StatusError.notFound({ message: "User not found", code: "USER_NOT_FOUND", details: { id: 1 } });
+
+      const body = await responseJsonError(error).json();
+
+      expect(body).toEqual({ status: 404, message: "User not found", code: "USER_NOT_FOUND", details: { id: 1 }, errorId: expect.any(String) });
+    });
+
+    test("code가 없으면 JSON에 포함하지 않음", async () => {
+      const body: any = await responseJsonError(new StatusError("Bad", 400)).json();
+
+      expect(body).toEqual({ status: 400, message: "Bad", errorId: expect.any(String) });
+    });
+
+    test("transform 함수에 code와 details가 전달됨", async () => {
+      const error = new StatusError("Conflict", 409, { code: "DUPLICATE_EMAIL", details: ["email"] });
+
+      const body = await responseJsonError(error, (json) => ({ error: json.code, fields: json.details })).json();
+
+      expect(body).toEqual({ error: "DUPLICATE_EMAIL", fields: ["email"] });
+    });
+
+    test("headers를 모든 응답에 설정", () => {
+      const error = StatusError.unauthorized({ headers: { "WWW-Authenticate": 'Bearer realm="api"' } });
+
+      for (const response of [responseJsonError(error), responseTextError(error), responseHtmlError(error)]) {
+        expect(response.status).toBe(401);
+        expect(response.headers.get("WWW-Authenticate")).toBe('Bearer realm="api"');
+      }
+      expect(responseJsonError(error).headers.get("Content-Type")).toBe("application/json");
+    });
+  });
+
+  describe("Retry-After 헤더", () => {
+    test("retryAfter 초를 헤더로 설정", () => {
+      const response = responseJsonError(StatusError.tooManyRequests({ retryAfter: 30 }));
+
+      expect(response.status).toBe(429);
+      expect(response.headers.get("Retry-After")).toBe("30");
+      expect(response.headers.get("Content-Type")).toBe("application/json");
+    });
+
+    test("retryAfter Date는 HTTP 날짜로 설정 (text, html 응답 포함)", () => {
+      const date = new Date("2024-01-01T00:00:00Z");
+      const error = StatusError.serviceUnavailable({ retryAfter: date });
+
+      expect(responseTextError(error).headers.get("Retry-After")).toBe("Mon, 01 Jan 2024 00:00:00 GMT");
+      expect(responseHtmlError(error).headers.get("Retry-After")).toBe("Mon, 01 Jan 2024 00:00:00 GMT");
+    });
+  });
+});
+
+describe("에러 노출 정책", () => {
+  test("minimal: 모든 응답에서 메시지를 숨기고 에러 ID를 담음", async () => {
+    const error = new Error("connect ECONNREFUSED 10.0.0.1:5432");
+
+    const json: any = await responseJsonError(error, { exposure: "minimal" }).json();
+    const problem: any = await responseProblemError(error, { exposure: "minimal" }).json();
+    const text = await responseTextError(error, { exposure: "minimal" }).text();
+    const html = await responseHtmlError(error, { exposure: "minimal" }).text();
+
+    expect(json).toEqual({ status: 500, message: "Internal Server Error", errorId: expect.any(String) });
+    expect(problem.detail).toBe("Internal Server Error");
+    expect(problem.errorId).toBe(json.errorId);
+    expect(text).toBe(`Error: Internal Server Error\nError ID: ${json.errorId}`);
+    expect(html).not.toContain("ECONNREFUSED");
+    expect(html).toContain(json.errorId);
+  });
+
+  test("모든 형식의 응답에 X-Error-Id 헤더, JSON 본문에는 errorId", async () => {
+    const error = StatusError.notFound("User not found");
+
+    const json = responseJsonError(error);
+    const body: any = await json.json();
+
+    expect(body.errorId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(json.headers.get("X-Error-Id")).toBe(body.errorId);
+    for (const response of [responseProblemError(error), responseTextError(error), responseHtmlError(error)]) {
+      expect(response.headers.get("X-Error-Id")).toBe(body.errorId);
+    }
+    expect(await responseTextError(error).text()).toBe("Error: User not found");
+  });
+
+  test("minimal: transform 옵션과 함께 사용", async () => {
+    const response = responseJsonError(new Error("secret"), {
+      exposure: "minimal",
+      transform: (json) => ({ error: json.message })
+    });
+
+    expect(await response.json()).toEqual({ error: "Internal Server Error" });
+  });
+
+  test("minimal: JSX 템플릿에는 메시지를 숨긴 에러가 전달됨", async () => {
+    const html = await responseHtmlError(new Error("secret"), { template: ErrorPage, exposure: "minimal" }).text();
+
+    expect(html).toContain("<p>Internal Server Error</p>");
+    expect(html).not.toContain("secret");
+  });
+
+  test("full: cause 체인과 stack 포함 (HTML은 이스케이프)", async () => {
+    const error = new StatusError("Upstream failed", 502, { cause: new Error("<b>fetch</b> failed") });
+
+    const json: any = await responseJsonError(error, { exposure: "full" }).json();
+    const text = await responseTextError(error, { exposure: "full" }).text();
+    const html = await responseHtmlError(error, { exposure: "full" }).text();
+
+    expect(json.causes).toEqual([{ name: "Error", message: "<b>fetch</b> failed" }]);
+    expect(json.stack).toContain("Upstream failed");
+    expect(text).toContain("Caused by: Error: <b>fetch</b> failed");
+    expect(html).toContain("Caused by: Error: &lt;b&gt;fetch&lt;/b&gt; failed");
+  });
+});
+
+describe("responseProblemError", () => {
+  test("StatusError를 problem+json으로 응답", async () => {
+    const response = responseProblemError(new StatusError("Order 1 does not exist", 404));
+
+    expect(response.status).toBe(404);
+    expect(response.headers.get("Content-Type")).toBe("application/problem+json");
+    expect(await response.json()).toEqual({
+      type: "about:blank",
+      title: "Not Found",
+      status: 404,
+      detail: "Order 1 does not exist",
+      errorId: expect.any(String)
+    });
+  });
+
+  test("일반 Error는 500", async () => {
+    const body: any = await responseProblemError(new Error("boom")).json();
+
+    expect(body).toEqual({ type: "about:blank", title: "Internal Server Error", status: 500, detail: "boom", errorId: expect.any(String) });
+  });
+
+  test("type, instance, code, details를 포함", async () => {
+    const error = StatusError.conflict({ message: "Email taken", code: "EMAIL_TAKEN", details: { email: "a@b.c" } });
+
+    const body = await responseProblemError(error, {
+      type: (e) => `https://api.example.com/problems/${(e as StatusError).code}`,
+      instance: "/users"
+    }).json();
+
+    expect(body).toEqual({
+      type: "https://api.example.com/problems/EMAIL_TAKEN",
+      title: "Conflict",
+      status: 409,
+      detail: "Email taken",
+      instance: "/users",
+      code: "EMAIL_TAKEN",
+      details: { email: "a@b.c" },
+      errorId: expect.any(String)
+    });
+  });
+
+  test("ValidationError의 errors와 확장 멤버 포함 (표준 멤버는 덮어쓰지 않음)", async () => {
+    const errors = [{ field: "name", rule: "required", message: "Required field 'name' is missing or empty" }];
+
+    const body: any = await responseProblemError(new ValidationError(errors), {
+      extensions: { traceId: "abc", status: 200 }
+    }).json();
+
+    expect(body.status).toBe(422);
+    expect(body.errors).toEqual(errors);
+    expect(body.traceId).toBe("abc");
+  });
+
+  test("transform 함수와 에러 헤더 적용", async () => {
+    const error = StatusError.tooManyRequests({ retryAfter: 5 });
+
+    const response = responseProblemError(error, { transform: (problem) => ({ ...problem, type: "urn:rate-limit" }) });
+
+    expect(response.headers.get("Retry-After")).toBe("5");
+    expect(((await response.json()) as any).type).toBe("urn:rate-limit");
+  });
 });
 
 describe("responseTextError", () => {
@@ -307,5 +540,314 @@ describe("responseHtmlError", () => {
       const body = await response.text();
       expect(body).toBe(template);
     });
+
+    test("{{status}}, {{title}}, {{message}}, {{code}}, {{errorId}}를 이스케이프하여 치환", async () => {
+      const error = StatusError.badRequest({ message: `Invalid name "<script>alert(1)</script>"`, code: "A&B" });
+      const template = "<title>{{status}} {{title}}</title><p>{{ message }}</p><i>{{code}}</i><b>{{unknown}}</b><s>{{errorId}}</s>";
+
+      const body = await responseHtmlError(error, template).text();
+
+      expect(body).toStartWith(
+        "<title>400 Bad Request</title><p>Invalid name &quot;&lt;script&gt;alert(1)&lt;/script&gt;&quot;</p><i>A&amp;B</i><b>{{unknown}}</b><s>"
+      );
+      expect(body).toMatch(/<s>[0-9a-f-]{36}<\/s>$/);
+    });
+  });
+
+  describe("이스케이프와 비동기 템플릿", () => {
+    test("기본 템플릿은 메시지를 이스케이프", async () => {
+      const body = await responseHtmlError(StatusError.notFound("<img src=x onerror=alert(1)>")).text();
+
+      expect(body).toBe("<h1>Error</h1><p>&lt;img src=x onerror=alert(1)&gt;</p>");
+    });
+
+    test("JSX 컴포넌트는 Hono가 메시지를 이스케이프", async () => {
+      const body = await responseHtmlError(StatusError.notFound("<b>bold</b>"), ErrorPage).text();
+
+      expect(body).toContain("<p>&lt;b&gt;bold&lt;/b&gt;</p>");
+    });
+
+    test("html 태그 템플릿 함수에 status, message 전달", async () => {
+      const template = ({ status, message }: { status: number; message: string }) => html`<h1>${status}</h1><p>${message}</p>`;
+
+      const response = responseHtmlError(StatusError.conflict("<i>taken</i>"), { template });
+
+      expect(response.status).toBe(409);
+      expect(await response.text()).toBe("<h1>409</h1><p>&lt;i&gt;taken&lt;/i&gt;</p>");
+    });
+
+    test("비동기 컴포넌트는 렌더링 결과를 스트림으로 응답", async () => {
+      const response = responseHtmlError(StatusError.notFound("User not found"), AsyncErrorPage);
+
+      expect(response).toBeInstanceOf(Response);
+      expect(response.status).toBe(404);
+      expect(response.headers.get("Content-Type")).toBe("text/html; charset=UTF-8");
+      expect(await response.text()).toBe("<div><p>User not found</p><small>support@example.com</small></div>");
+    });
+
+    test("비동기 컴포넌트 렌더링이 실패하면 기본 템플릿으로 응답", async () => {
+      const consoleSpy = spyOn(console, "error").mockImplementation(() => {});
+      const response = responseHtmlError(new StatusError("Broken", 500), BrokenAsyncComponent);
+
+      expect(await response.text()).toBe("<h1>Error</h1><p>Broken</p>");
+      expect(consoleSpy).toHaveBeenCalledTimes(1);
+      consoleSpy.mockRestore();
+    });
+  });
+});
+
+describe("성공 응답", () => {
+  afterEach(() => {
+    setSuccessEnvelope(undefined);
+  });
+
+  test("responseJson은 { status, data } 형태로 응답하고 meta, status, headers 적용", async () => {
+    const basic = responseJson({ id: 1 });
+    const custom = responseJson([1, 2], { status: 202, meta: { cached: true }, headers: { "Cache-Control": "max-age=60" } });
+
+    expect(basic.status).toBe(200);
+    expect(basic.headers.get("Content-Type")).toBe("application/json");
+    expect(await basic.json()).toEqual({ status: 200, data: { id: 1 } });
+    expect(custom.status).toBe(202);
+    expect(custom.headers.get("Cache-Control")).toBe("max-age=60");
+    expect(await custom.json()).toEqual({ status: 202, data: [1, 2], meta: { cached: true } });
+  });
+
+  test("responseCreated는 201과 Location 헤더", async () => {
+    const response = responseCreated({ id: 7 }, { location: "/user/7" });
+
+    expect(response.status).toBe(201);
+    expect(response.headers.get("Location")).toBe("/user/7");
+    expect(await response.json()).toEqual({ status: 201, data: { id: 7 } });
+  });
+
+  test("responseNoContent는 본문 없이 204", async () => {
+    const response = responseNoContent({ "X-Deleted": "1" });
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get("X-Deleted")).toBe("1");
+    expect(await response.text()).toBe("");
+  });
+
+  test("setSuccessEnvelope로 앱 전체의 형태를 바꾸고 transform이 우선", async () => {
+    setSuccessEnvelope((json) => ({ ok: true, result: json.data }));
+
+    expect(await responseJson("a").json()).toEqual({ ok: true, result: "a" });
+    expect(await responseCreated("b").json()).toEqual({ ok: true, result: "b" });
+    expect(await responseJson("c", { transform: (json) => json.data }).json()).toBe("c");
+  });
+
+  test("responsePaginated: offset 방식은 page, total, 링크를 meta.pagination에 포함", async () => {
+    const list: ListParams = { mode: "offset", page: 2, offset: 10, limit: 10, sort: [], filter: {} };
+
+    const body: any = await responsePaginated(["k", "l"], list, {
+      total: 25,
+      url: "https://api.example.com/posts?page=2&limit=10&sort=-id",
+      meta: { took: 3 },
+    }).json();
+
+    expect(body).toEqual({
+      status: 200,
+      data: ["k", "l"],
+      meta: {
+        took: 3,
+        pagination: {
+          mode: "offset",
+          page: 2,
+          limit: 10,
+          total: 25,
+          totalPages: 3,
+          hasMore: true,
+          next: "https://api.example.com/posts?limit=10&sort=-id&page=3",
+          prev: "https://api.example.com/posts?limit=10&sort=-id&page=1",
+        },
+      },
+    });
+  });
+
+  test("responsePaginated: cursor 방식은 nextCursor를 인코딩", async () => {
+    const list: ListParams = { mode: "cursor", cursor: null, limit: 2, sort: [], filter: {} };
+
+    const more: any = await responsePaginated([1, 2], list, { nextCursor: { id: 2 } }).json();
+    const last: any = await responsePaginated([3], list).json();
+
+    expect(more.meta.pagination).toEqual({ mode: "cursor", limit: 2, hasMore: true, nextCursor: encodeCursor({ id: 2 }) });
+    expect(last.meta.pagination).toEqual({ mode: "cursor", limit: 2, hasMore: false, nextCursor: null });
+  });
+});
+
+describe("responseEventStream", () => {
+  test("formatServerSentEvent는 id, event, retry, 여러 줄 data를 필드로 나눔", () => {
+    expect(formatServerSentEvent({ id: 1, event: "progress", data: { step: 1 } })).toBe('id: 1\nevent: progress\ndata: {"step":1}\n\n');
+    expect(formatServerSentEvent({ event: "log\ninjected", data: "a\nb", retry: 3000.5 })).toBe("event: loginjected\nretry: 3000\ndata: a\ndata: b\n\n");
+  });
+
+  test("producer가 보낸 이벤트를 text/event-stream으로 응답하고 끝나면 닫음", async () => {
+    const response = responseEventStream(async (send) => {
+      await send({ id: 1, event: "progress", data: { step: 1 } });
+      await send({ data: "done" });
+    }, { retry: 5000, headers: { "X-Job-Id": "42" } });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe("text/event-stream; charset=utf-8");
+    expect(response.headers.get("Cache-Control")).toBe("no-cache");
+    expect(response.headers.get("X-Job-Id")).toBe("42");
+    expect(await response.text()).toBe('retry: 5000\n\nid: 1\nevent: progress\ndata: {"step":1}\n\ndata: done\n\n');
+  });
+
+  test("heartbeat 주석을 주기적으로 보냄", async () => {
+    const response = responseEventStream(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 35));
+    }, { heartbeat: 10 });
+
+    expect(await response.text()).toContain(": heartbeat\n\n");
+  });
+
+  test("producer가 예외를 던지면 에러 JSON을 error 이벤트로 보내고 종료", async () => {
+    const response = responseEventStream(async (send) => {
+      await send({ data: "started" });
+      throw StatusError.conflict({ message: "Job already running", code: "JOB_RUNNING" });
+    });
+
+    const text = await response.text();
+    const [, errorData] = text.match(/event: error\ndata: (.*)\n\n$/) ?? [];
+    expect(text).toStartWith("data: started\n\n");
+    expect(JSON.parse(errorData ?? "")).toEqual({ status: 409, message: "Job already running", code: "JOB_RUNNING", errorId: expect.any(String) });
+  });
+
+  test("5xx 에러는 노출 정책에 따라 메시지를 숨김", async () => {
+    const consoleSpy = spyOn(console, "error").mockImplementation(() => {});
+    const response = responseEventStream(() => {
+      throw new Error("db password");
+    }, { exposure: "minimal" });
+
+    const text = await response.text();
+    expect(text).toContain('"message":"Internal Server Error"');
+    expect(text).not.toContain("db password");
+    expect(consoleSpy).toHaveBeenCalledTimes(1);
+    consoleSpy.mockRestore();
+  });
+
+  test("클라이언트가 연결을 끊으면 signal이 abort되고 send는 false", async () => {
+    const client = new AbortController();
+    let sendResult: boolean | undefined;
+    let producerSignal: AbortSignal | undefined;
+    const finished = new Promise<void>((resolve) => {
+      responseEventStream(async (send, signal) => {
+        producerSignal = signal;
+        await send({ data: "first" });
+        client.abort();
+        sendResult = await send({ data: "second" });
+        resolve();
+      }, { signal: client.signal });
+    });
+
+    await finished;
+    expect(producerSignal?.aborted).toBe(true);
+    expect(sendResult).toBe(false);
+  });
+
+  test("trace 로거에 스트림의 시작, 종료와 이벤트 수를 기록", async () => {
+    const stdout: string[] = [];
+    const detail: Record<string, unknown> = {};
+    const trace = (async (run: (utils: any) => any) => run({
+      stdout: (...texts: unknown[]) => stdout.push(texts.join(" ")),
+      assignDetail: (values: Record<string, unknown>) => Object.assign(detail, values),
+      formatMs: () => "1 ms",
+    })) as any;
+
+    const response = responseEventStream(async (send) => {
+      await send({ data: "a" });
+      await send({ data: "b" });
+    }, { trace });
+    await response.text();
+
+    expect(stdout).toEqual(["Event stream opened", "Event stream closed 1 ms"]);
+    expect(detail).toEqual({ events: 2, disconnected: false });
+  });
+});
+
+describe("responseCsv, responseNdjson", () => {
+  const users = [
+    { id: 1, name: "홍길동", memo: 'says "hi", then\nleaves', joined: new Date("2024-01-02T03:04:05Z") },
+    { id: 2, name: "Kim", memo: null, joined: new Date("2024-02-03T00:00:00Z") },
+  ];
+
+  async function* generateRows(count: number) {
+    for (let id = 1; id <= count; id++) {
+      yield { id, name: `user${id}` };
+    }
+  }
+
+  test("첫 행의 키로 제목 행을 만들고 값을 RFC 4180에 맞게 이스케이프", async () => {
+    const response = responseCsv(users);
+
+    expect(response.headers.get("Content-Type")).toBe("text/csv; charset=utf-8");
+    expect(response.headers.get("Content-Disposition")).toBeNull();
+    expect(await response.text()).toBe(
+      "id,name,memo,joined\r\n" +
+      '1,홍길동,"says ""hi"", then\nleaves",2024-01-02T03:04:05.000Z\r\n' +
+      "2,Kim,,2024-02-03T00:00:00.000Z\r\n"
+    );
+  });
+
+  test("columns로 열 선택, 순서, 제목, 값 함수 지정", async () => {
+    const response = responseCsv(users, {
+      columns: [{ key: "name", header: "이름" }, "id", { key: "joined", header: "가입일", value: (user) => user.joined.toISOString().slice(0, 10) }],
+      delimiter: ";",
+    });
+
+    expect(await response.text()).toBe("이름;id;가입일\r\n홍길동;1;2024-01-02\r\nKim;2;2024-02-03\r\n");
+  });
+
+  test("bom, header, escapeFormulas 옵션과 빈 목록", async () => {
+    const bom = await responseCsv([{ a: "한글" }], { bom: true }).arrayBuffer();
+    const noHeader = await responseCsv([{ a: "=SUM(A1)", b: -1 }], { header: false, escapeFormulas: true }).text();
+    const empty = await responseCsv([], { columns: ["id", "name"] }).text();
+
+    expect([...new Uint8Array(bom).slice(0, 3)]).toEqual([0xef, 0xbb, 0xbf]);
+    expect(noHeader).toBe("'=SUM(A1),-1\r\n");
+    expect(empty).toBe("id,name\r\n");
+  });
+
+  test("async iterable을 스트리밍하고 파일명을 RFC 5987로 인코딩", async () => {
+    const response = responseCsv(generateRows(3), { filename: "회원 목록.csv" });
+
+    expect(response.body).toBeInstanceOf(ReadableStream);
+    expect(response.headers.get("Content-Disposition")).toBe(
+      `attachment; filename="_ _.csv"; filename*=UTF-8''%ED%9A%8C%EC%9B%90%20%EB%AA%A9%EB%A1%9D.csv`
+    );
+    expect(await response.text()).toBe("id,name\r\n1,user1\r\n2,user2\r\n3,user3\r\n");
+  });
+
+  test("formatContentDisposition은 ASCII 파일명을 그대로 사용", () => {
+    expect(formatContentDisposition("report.csv")).toBe('attachment; filename="report.csv"');
+    expect(formatContentDisposition('a"b.csv', "inline")).toBe(`inline; filename="a_b.csv"; filename*=UTF-8''a%22b.csv`);
+  });
+
+  test("읽는 만큼만 행을 가져옴", async () => {
+    let produced = 0;
+    async function* rows() {
+      for (let id = 1; id <= 1000; id++) {
+        produced++;
+        yield { id };
+      }
+    }
+
+    const reader = responseNdjson(rows()).body!.getReader();
+    await reader.read();
+    await reader.cancel();
+
+    expect(produced).toBeLessThan(10);
+  });
+
+  test("responseNdjson은 줄마다 JSON을 쓰고 columns로 키 선택", async () => {
+    const all = responseNdjson(generateRows(2), { filename: "users.ndjson" });
+    const picked = await responseNdjson(users, { columns: [{ key: "name", header: "userName" }, "memo"] }).text();
+
+    expect(all.headers.get("Content-Type")).toBe("application/x-ndjson");
+    expect(all.headers.get("Content-Disposition")).toBe('attachment; filename="users.ndjson"');
+    expect(await all.text()).toBe('{"id":1,"name":"user1"}\n{"id":2,"name":"user2"}\n');
+    expect(picked).toBe('{"userName":"홍길동","memo":"says \\"hi\\", then\\nleaves"}\n{"userName":"Kim","memo":null}\n');
   });
 });
@@ -3,6 +3,11 @@
 // 모든 헤더 관리 미들웨어와 완벽히 호환됩니다.
 
 import { type FC } from "hono/jsx";
+import { isServerError, isStatusError, type FieldError, type MutableObject } from "./common";
+import { type TraceProc, type TraceUtils } from "./createHook";
+import { describeError, toExposedError, type ErrorDescription, type ErrorExposure } from "./errorExposure";
+import { getLocalizedStatusMessage } from "./errorMessages";
+import { buildListLinks, encodeCursor, type ListLinksOptions, type ListParams } from "./listParams";
 
 /* USAGE
   app.get("/user/foo", (c)=>{
@@ -24,6 +29,24 @@ import { type FC } from "hono/jsx";
     }
   });
 
+  app.get("/user/:id", (c)=>{
+    try {
+      throw StatusError.notFound({ message: "User not found", code: "USER_NOT_FOUND", details: { id: c.req.param("id") } })
+    }
+    catch (error) {
+      return responseJsonError(error); // { status: 404, message: "User not found", code: "USER_NOT_FOUND", details: { id: "1" } }
+    }
+  });
+
+  app.get("/admin", (c)=>{
+    try {
+      throw StatusError.unauthorized({ headers: { "WWW-Authenticate": 'Bearer realm="admin"' } })
+    }
+    catch (error) {
+      return responseTextError(error); // 401 + WWW-Authenticate 헤더
+    }
+  });
+
   app.get("/user/text", (c)=>{
     try {
       throw new Error("Text Error")
@@ -33,35 +56,195 @@ import { type FC } from "hono/jsx";
   });
 */
 
+/**
+ * responseJsonError의 기본 응답 JSON
+ */
+export type ErrorResponseJson = {
+  status: number;
+  message: string;
+  /** StatusError의 오류 코드 */
+  code?: string;
+  /** StatusError의 추가 정보 */
+  details?: unknown;
+  /** ValidationError의 필드 오류 목록 */
+  errors?: FieldError[];
+  /** 로그와 연결할 에러 ID (X-Error-Id 헤더와 같은 값) */
+  errorId?: string;
+  /** 개발 환경(full)에서 에러 지문 */
+  fingerprint?: string;
+  /** 개발 환경(full)에서 cause 체인 */
+  causes?: { name: string; message: string }[];
+  /** 개발 환경(full)에서 stack */
+  stack?: string;
+};
+
+/**
+ * 에러 응답 공통 옵션
+ */
+export type ErrorResponseOptions = {
+  /** 에러 노출 수준 (기본값: setErrorExposure 또는 실행 환경으로 결정) */
+  exposure?: ErrorExposure;
+  /** 메시지 언어 (기본값: "en"). 직접 지정한 메시지는 번역하지 않음 */
+  locale?: string;
+};
+
+// StatusError에 지정된 응답 헤더(WWW-Authenticate, Retry-After 등)를 Content-Type, X-Error-Id와 함께 설정
+function errorHeaders(error: unknown, contentType: string, description: ErrorDescription): Headers {
+  const headers = new Headers({ 'Content-Type': contentType, 'X-Error-Id': description.errorId });
+  if (!isStatusError(error)) {
+    return headers;
+  }
+  for (const [name, value] of Object.entries(error.headers ?? {})) {
+    headers.set(name, value);
+  }
+  const retryAfter = error.retryAfter;
+  if (retryAfter !== undefined) {
+    headers.set('Retry-After', retryAfter instanceof Date ? retryAfter.toUTCString() : String(Math.ceil(retryAfter)));
+  }
+  return headers;
+}
+
+// 노출 정책을 적용한 정보 중 값이 있는 항목만 응답 JSON에 포함
+function toErrorJson(description: ErrorDescription): ErrorResponseJson {
+  const { redacted, ...fields } = description;
+  const json: ErrorResponseJson = { status: fields.status, message: fields.message };
+  for (const key of ['code', 'details', 'errors', 'errorId', 'fingerprint', 'causes', 'stack'] as const) {
+    if (fields[key] !== undefined) {
+      (json as any)[key] = fields[key];
+    }
+  }
+  return json;
+}
+
+/**
+ * 에러를 JSON으로 응답합니다. 두 번째 인자로 transform 함수 또는 옵션을 받습니다.
+ * StatusError의 code, details와 ValidationError의 errors를 포함하며,
+ * 로그와 연결할 errorId를 본문과 X-Error-Id 헤더에 담으며, 운영 환경에서는 StatusError가 아닌 에러와 5xx의 메시지를 숨깁니다.
+ */
 export function responseJsonError(
   error: unknown,
-  transform?: (json: { status: number; message: string }) => any
+  transformOrOptions?: ((json: ErrorResponseJson) => any) | (ErrorResponseOptions & { transform?: (json: ErrorResponseJson) => any })
 ): Response {
-  const status: number = (typeof error === 'object' && error && 'status' in error) ? (error.status as number) : 500;
-  const defaultJson = { status, message: (error as any)?.message };
-  const responseJson = transform ? transform(defaultJson) : defaultJson;
+  const options = typeof transformOrOptions === 'function' ? { transform: transformOrOptions } : transformOrOptions ?? {};
+  const description = describeError(error, options.exposure, options.locale);
+  const status = description.status;
+  const defaultJson = toErrorJson(description);
+  const responseJson = options.transform ? options.transform(defaultJson) : defaultJson;
 
   return new Response(JSON.stringify(responseJson), {
     status,
-    headers: {
-      'Content-Type': 'application/json'
+    headers: errorHeaders(error, 'application/json', description)
+  });
+}
+
+/* USAGE
+  // RFC 9457 Problem Details (application/problem+json)
+  app.get("/orders/:id", (c)=>{
+    try {
+      throw StatusError.notFound({ message: "Order 1 does not exist", code: "ORDER_NOT_FOUND" })
+    }
+    catch (error) {
+      return responseProblemError(error, {
+        type: (error) => `https://api.example.com/problems/${(error as any)?.code ?? "unknown"}`,
+        instance: c.req.path,
+      });
+      // { "type": "https://api.example.com/problems/ORDER_NOT_FOUND", "title": "Not Found", "status": 404,
+      //   "detail": "Order 1 does not exist", "instance": "/orders/1", "code": "ORDER_NOT_FOUND" }
+    }
+  });
+*/
+
+/**
+ * RFC 9457 Problem Details 응답 본문
+ * type, title, status, detail, instance 외의 키는 확장 멤버입니다.
+ */
+export type ProblemDetails = {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  [extension: string]: unknown;
+};
+
+/**
+ * responseProblemError 옵션
+ */
+export type ProblemErrorOptions = ErrorResponseOptions & {
+  /** 문제 유형 URI. 함수면 에러로부터 생성 (기본값: "about:blank") */
+  type?: string | ((error: unknown) => string);
+  /** 문제가 발생한 리소스 URI (예: c.req.path) */
+  instance?: string;
+  /** 추가할 확장 멤버 */
+  extensions?: Record<string, unknown>;
+  /** 최종 본문 변환 */
+  transform?: (problem: ProblemDetails) => any;
+};
+
+/**
+ * 에러를 RFC 9457 Problem Details(application/problem+json) 형식으로 응답합니다.
+ * title은 상태 코드의 기본 메시지, detail은 에러 메시지이며
+ * StatusError의 code, details와 ValidationError의 errors, 노출 정책에 따른 errorId, causes, stack은 확장 멤버로 포함됩니다.
+ */
+export function responseProblemError(error: unknown, options: ProblemErrorOptions = {}): Response {
+  const description = describeError(error, options.exposure, options.locale);
+  const status = description.status;
+  const type = typeof options.type === 'function' ? options.type(error) : options.type;
+  const problem: ProblemDetails = { type: type ?? 'about:blank', title: getLocalizedStatusMessage(status, options.locale), status };
+  const { status: _status, message, ...extensions } = toErrorJson(description);
+  if (typeof message === 'string' && message !== '') {
+    problem.detail = message;
+  }
+  if (options.instance !== undefined) {
+    problem.instance = options.instance;
+  }
+  Object.assign(problem, extensions);
+  // 표준 멤버는 확장 멤버로 덮어쓰지 않음
+  for (const [key, value] of Object.entries(options.extensions ?? {})) {
+    if (!['type', 'title', 'status', 'detail', 'instance'].includes(key)) {
+      problem[key] = value;
     }
+  }
+  const responseJson = options.transform ? options.transform(problem) : problem;
+
+  return new Response(JSON.stringify(responseJson), {
+    status,
+    headers: errorHeaders(error, 'application/problem+json', description)
   });
 }
 
+// 에러 ID와 개발 환경의 cause 체인, stack을 본문 뒤에 붙일 줄 목록
+function describeExtraLines(description: ErrorDescription): string[] {
+  const lines: string[] = [];
+  // 에러 ID는 X-Error-Id 헤더로 항상 전달하고, 본문에는 메시지를 숨긴 경우에만 표시
+  if (description.redacted) {
+    lines.push(`Error ID: ${description.errorId}`);
+  }
+  for (const cause of description.causes ?? []) {
+    lines.push(`Caused by: ${cause.name}: ${cause.message}`);
+  }
+  if (description.stack) {
+    lines.push(description.stack);
+  }
+  return lines;
+}
+
+/**
+ * 에러를 텍스트로 응답합니다. 두 번째 인자로 transform 함수 또는 옵션을 받습니다.
+ */
 export function responseTextError(
   error: unknown,
-  transform?: (text: string) => string
+  transformOrOptions?: ((text: string) => string) | (ErrorResponseOptions & { transform?: (text: string) => string })
 ): Response {
-  const status: number = (typeof error === 'object' && error && 'status' in error) ? (error.status as number) : 500;
-  const defaultText = `Error: ${(error as any)?.message}`;
-  const responseText = transform ? transform(defaultText) : defaultText;
+  const options = typeof transformOrOptions === 'function' ? { transform: transformOrOptions } : transformOrOptions ?? {};
+  const description = describeError(error, options.exposure, options.locale);
+  const status = description.status;
+  const defaultText = [`Error: ${description.message}`, ...describeExtraLines(description)].join('\n');
+  const responseText = options.transform ? options.transform(defaultText) : defaultText;
 
   return new Response(responseText, {
     status,
-    headers: {
-      'Content-Type': 'text/plain; charset=UTF-8'
-    }
+    headers: errorHeaders(error, 'text/plain; charset=UTF-8', description)
   });
 }
 
@@ -89,7 +272,7 @@ export function responseTextError(
     }
   });
 
-  // 또는 문자열 템플릿 사용
+  // 또는 문자열 템플릿 사용 ({{status}}, {{title}}, {{message}}, {{code}}, {{errorId}}는 이스케이프되어 치환)
   app.get("/user/simple", (c)=>{
     try {
       throw new StatusError("Simple Error", 500)
@@ -97,64 +280,671 @@ export function responseTextError(
     catch (error) {
       return responseHtmlError(error, `
         <html>
-          <head><title>Error</title></head>
+          <head><title>{{status}} {{title}}</title></head>
           <body>
             <h1>Oops! Something went wrong</h1>
-            <p>${(error as any)?.message}</p>
-            <small>Status: ${(error as any)?.status || 500}</small>
+            <p>{{message}}</p>
+            <small>Error ID: {{errorId}}</small>
           </body>
         </html>
       `);
     }
   });
+
+  // Hono의 html 태그 템플릿이나 비동기 컴포넌트도 사용 가능
+  import { html } from 'hono/html';
+
+  const HtmlPage = ({ status, message }: HtmlErrorTemplateProps) => html`<h1>${status}</h1><p>${message}</p>`;
+  const AsyncPage: FC<HtmlErrorTemplateProps> = async ({ message }) => {
+    const support = await loadSupportContact();
+    return <p>{message} ({support})</p>;
+  };
 */
 
-export function responseHtmlError(
-  error: unknown,
-  template?: FC<{ error: unknown }> | string
-): Response {
-  const status: number = (typeof error === 'object' && error && 'status' in error) ? (error.status as number) : 500;
+/**
+ * responseHtmlError의 JSX 컴포넌트(또는 html 태그 템플릿 함수)에 전달되는 props
+ * message는 노출 정책과 언어를 적용한 메시지입니다.
+ */
+export type HtmlErrorTemplateProps = {
+  error: unknown;
+  status: number;
+  message: string;
+  errorId: string;
+};
+
+/**
+ * responseHtmlError 옵션
+ */
+export type HtmlErrorOptions = ErrorResponseOptions & {
+  /**
+   * JSX 컴포넌트(비동기 포함), html 태그 템플릿을 반환하는 함수 또는 HTML 문자열 템플릿
+   * 문자열 템플릿의 {{status}}, {{title}}, {{message}}, {{code}}, {{errorId}}는 이스케이프한 값으로 바뀝니다.
+   */
+  template?: FC<HtmlErrorTemplateProps> | string;
+};
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// 기본 HTML 템플릿. 메시지와 에러 ID, 개발 환경의 cause 체인, stack을 모두 이스케이프
+function renderDefaultHtml(description: ErrorDescription): string {
+  const extraLines = describeExtraLines(description);
+  const extra = extraLines.length > 0 ? `<pre>${escapeHtml(extraLines.join('\n'))}</pre>` : '';
+  return `<h1>Error</h1><p>${escapeHtml(String(description.message ?? ''))}</p>${extra}`;
+}
+
+// 문자열 템플릿의 {{이름}}을 이스케이프한 값으로 치환 (알 수 없는 이름은 그대로 유지)
+function renderStringTemplate(template: string, description: ErrorDescription, locale: string | undefined): string {
+  const values: Record<string, string | undefined> = {
+    status: String(description.status),
+    title: getLocalizedStatusMessage(description.status, locale),
+    message: description.message,
+    code: description.code,
+    errorId: description.errorId,
+  };
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    Object.hasOwn(values, name) ? escapeHtml(values[name] ?? '') : placeholder
+  );
+}
+
+// 컴포넌트 결과를 문자열로 변환. 비동기 컴포넌트나 비동기 자식이 있으면 Promise를 반환
+function renderComponentResult(rendered: unknown): string | null | Promise<string | null> {
+  if (rendered instanceof Promise) {
+    return rendered.then(async (resolved) => (resolved == null ? null : String(await resolved.toString())));
+  }
+  if (rendered == null) {
+    return null;
+  }
+  const html = (rendered as { toString(): string | Promise<string> }).toString();
+  return html instanceof Promise ? html.then((text) => String(text)) : html;
+}
 
-  if (template) {
-    if (typeof template === 'function') {
-      // JSX 컴포넌트인 경우
+// 비동기 렌더링 결과를 스트림으로 전달. 렌더링에 실패하면 기본 HTML을 보냄
+function streamHtml(pending: Promise<string | null>, fallback: string): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    async start(controller) {
+      let html: string;
       try {
-        const Component = template;
-        const element = Component({ error });
-        const htmlString = element ? element.toString() : `<h1>Error</h1><p>${(error as any)?.message}</p>`;
-
-        return new Response(htmlString, {
-          status,
-          headers: {
-            'Content-Type': 'text/html; charset=UTF-8'
-          }
-        });
+        html = (await pending) ?? fallback;
       } catch (renderError) {
         console.error("[ERROR] Failed to render template component:", renderError);
-        return new Response(`<h1>Error</h1><p>${(error as any)?.message}</p>`, {
-          status,
-          headers: {
-            'Content-Type': 'text/html; charset=UTF-8'
-          }
-        });
+        html = fallback;
       }
-    } else {
-      // 문자열 템플릿인 경우
-      return new Response(template, {
-        status,
-        headers: {
-          'Content-Type': 'text/html; charset=UTF-8'
-        }
-      });
+      controller.enqueue(new TextEncoder().encode(html));
+      controller.close();
     }
-  } else {
+  });
+}
+
+/**
+ * 에러를 HTML로 응답합니다. 두 번째 인자로 템플릿(JSX 컴포넌트, 문자열) 또는 옵션을 받습니다.
+ * 기본 템플릿과 문자열 템플릿의 값은 모두 이스케이프되며, JSX와 html 태그 템플릿은 Hono가 이스케이프합니다.
+ * 비동기 컴포넌트는 렌더링 결과를 스트림으로 응답하므로 반환 타입은 그대로 Response입니다.
+ * 운영 환경에서 메시지를 숨긴 경우 JSX 컴포넌트에는 일반 메시지만 담은 StatusError가 전달됩니다.
+ */
+export function responseHtmlError(
+  error: unknown,
+  templateOrOptions?: FC<HtmlErrorTemplateProps> | string | HtmlErrorOptions
+): Response {
+  const options: HtmlErrorOptions = typeof templateOrOptions === 'object' ? templateOrOptions : { template: templateOrOptions };
+  const template = options.template;
+  const description = describeError(error, options.exposure, options.locale);
+  const status = description.status;
+  const headers = errorHeaders(error, 'text/html; charset=UTF-8', description);
+
+  if (typeof template === 'string') {
+    // 문자열 템플릿인 경우
+    return new Response(renderStringTemplate(template, description, options.locale), { status, headers });
+  }
+
+  const fallback = renderDefaultHtml(description);
+  if (!template) {
     // 기본 템플릿
-    const html = `<h1>Error</h1><p>${(error as any)?.message}</p>`;
-    return new Response(html, {
+    return new Response(fallback, { status, headers });
+  }
+
+  // JSX 컴포넌트 또는 html 태그 템플릿 함수인 경우
+  try {
+    const Component = template;
+    const html = renderComponentResult(Component({
+      error: toExposedError(error, description),
       status,
-      headers: {
-        'Content-Type': 'text/html; charset=UTF-8'
+      message: description.message,
+      errorId: description.errorId,
+    }));
+    if (html instanceof Promise) {
+      return new Response(streamHtml(html, fallback), { status, headers });
+    }
+    return new Response(html ?? fallback, { status, headers });
+  } catch (renderError) {
+    console.error("[ERROR] Failed to render template component:", renderError);
+    return new Response(fallback, { status, headers });
+  }
+}
+
+/* USAGE
+  app.get("/user/:id", async (c)=>{
+    const user = await findUser(c.req.param("id"));
+    return responseJson(user); // { status: 200, data: { ... } }
+  });
+
+  app.post("/user", async (c)=>{
+    const user = await createUser(await parseParams(c));
+    return responseCreated(user, { location: `/user/${user.id}` }); // 201 + Location 헤더
+  });
+
+  app.delete("/user/:id", async (c)=>{
+    await deleteUser(c.req.param("id"));
+    return responseNoContent(); // 204
+  });
+
+  app.get("/posts", async (c)=>{
+    const list = await parseListParams(c, { sortable: ["created_at"] });
+    const { rows, total } = await findPosts(list);
+    return responsePaginated(rows, list, { total, url: c.req.url });
+    // { status: 200, data: [...], meta: { pagination: { mode: "offset", page: 1, limit: 20, total: 42, totalPages: 3, hasMore: true, next: "...", prev: null } } }
+  });
+
+  // 앱 전체의 성공 응답 형태 변경
+  setSuccessEnvelope((json) => ({ ok: true, ...json }));
+*/
+
+/**
+ * 성공 응답의 기본 JSON. responseJsonError의 { status, message }와 같은 형태의 envelope입니다.
+ */
+export type SuccessResponseJson<T = unknown> = {
+  status: number;
+  data: T;
+  /** 페이지네이션 등 data 외의 정보 */
+  meta?: MutableObject;
+};
+
+/**
+ * 성공 응답 공통 옵션
+ */
+export type SuccessResponseOptions = {
+  /** 상태 코드 (기본값: 200) */
+  status?: number;
+  /** 응답 JSON의 meta */
+  meta?: MutableObject;
+  /** 추가할 응답 헤더 */
+  headers?: Record<string, string>;
+  /** 이 응답에만 적용할 envelope 변환 (setSuccessEnvelope보다 우선) */
+  transform?: (json: SuccessResponseJson) => any;
+};
+
+let successEnvelope: ((json: SuccessResponseJson) => any) | undefined;
+
+/**
+ * 앱 전체의 성공 응답 형태를 지정합니다. undefined면 기본 { status, data, meta } 형태로 되돌립니다.
+ * @example
+ * setSuccessEnvelope((json) => ({ success: true, result: json.data, ...json.meta }));
+ */
+export function setSuccessEnvelope(envelope: ((json: SuccessResponseJson) => any) | undefined) {
+  successEnvelope = envelope;
+}
+
+/**
+ * 데이터를 { status, data, meta } 형태의 JSON으로 응답합니다.
+ * @example
+ * return responseJson(user, { meta: { cached: true }, headers: { "Cache-Control": "max-age=60" } });
+ */
+export function responseJson<T>(data: T, options: SuccessResponseOptions = {}): Response {
+  const status = options.status ?? 200;
+  const defaultJson: SuccessResponseJson<T> = { status, data };
+  if (options.meta !== undefined) {
+    defaultJson.meta = options.meta;
+  }
+  const transform = options.transform ?? successEnvelope;
+  const responseJson = transform ? transform(defaultJson) : defaultJson;
+
+  const headers = new Headers(options.headers);
+  headers.set('Content-Type', 'application/json');
+  return new Response(JSON.stringify(responseJson), { status, headers });
+}
+
+/**
+ * 생성된 리소스를 201로 응답합니다. location을 지정하면 Location 헤더를 설정합니다.
+ */
+export function responseCreated<T>(data: T, options: Omit<SuccessResponseOptions, 'status'> & { location?: string } = {}): Response {
+  const { location, ...rest } = options;
+  const headers = location === undefined ? rest.headers : { ...rest.headers, Location: location };
+  return responseJson(data, { ...rest, headers, status: 201 });
+}
+
+/**
+ * 본문 없이 204로 응답합니다.
+ */
+export function responseNoContent(headers?: Record<string, string>): Response {
+  return new Response(null, { status: 204, headers });
+}
+
+/**
+ * responsePaginated 옵션
+ */
+export type PaginatedResponseOptions = Omit<SuccessResponseOptions, 'status'> & ListLinksOptions & {
+  /** 현재 요청 URL (c.req.url). 지정하면 meta.pagination에 next, prev 링크 포함 */
+  url?: string;
+};
+
+/**
+ * parseListParams의 결과로 조회한 목록을 응답합니다. 페이지 정보는 meta.pagination에 담깁니다.
+ * - offset: page, limit, total, totalPages, hasMore
+ * - cursor: limit, hasMore, nextCursor
+ * @example
+ * const list = await parseListParams(c, { pagination: "cursor" });
+ * const rows = await findPosts(list);
+ * return responsePaginated(rows, list, { nextCursor: rows.at(-1) && { id: rows.at(-1).id }, url: c.req.url });
+ */
+export function responsePaginated<T>(items: T[], list: ListParams, options: PaginatedResponseOptions = {}): Response {
+  const { url, total, hasMore, nextCursor, prevCursor, meta, ...rest } = options;
+  let pagination: MutableObject;
+  if (list.mode === "cursor") {
+    const encodedNextCursor = nextCursor ? (typeof nextCursor === "string" ? nextCursor : encodeCursor(nextCursor)) : null;
+    pagination = { mode: "cursor", limit: list.limit, hasMore: hasMore ?? encodedNextCursor !== null, nextCursor: encodedNextCursor };
+  } else {
+    pagination = {
+      mode: "offset",
+      page: list.page,
+      limit: list.limit,
+      hasMore: hasMore ?? (total !== undefined && list.offset + list.limit < total),
+    };
+    if (total !== undefined) {
+      pagination.total = total;
+      pagination.totalPages = Math.ceil(total / list.limit);
+    }
+  }
+  if (url !== undefined) {
+    Object.assign(pagination, buildListLinks(url, list, { total, hasMore, nextCursor, prevCursor }));
+  }
+  return responseJson(items, { ...rest, meta: { ...meta, pagination } });
+}
+
+/* USAGE
+  app.get("/jobs/:id/progress", (c)=>{
+    return responseEventStream(async (send, signal) => {
+      for (let step = 1; step <= 10 && !signal.aborted; step++) {
+        await runStep(step);
+        await send({ id: step, event: "progress", data: { step, total: 10 } });
+      }
+      await send({ event: "done", data: "ok" });
+      // 예외를 던지면 마지막에 { status, message, errorId } 를 담은 error 이벤트를 보내고 종료
+    }, { signal: c.req.raw.signal, trace: nocoLogger });
+  });
+
+  // 브라우저
+  const source = new EventSource("/jobs/1/progress");
+  source.addEventListener("progress", (e) => console.log(JSON.parse(e.data)));
+  source.addEventListener("error", (e) => e.data && console.error(JSON.parse(e.data)));
+*/
+
+/**
+ * Server-Sent Events 이벤트 하나. data가 문자열이 아니면 JSON으로 직렬화합니다.
+ */
+export type ServerSentEvent = {
+  id?: string | number;
+  event?: string;
+  data: unknown;
+  /** 재연결 대기 시간 (밀리초) */
+  retry?: number;
+};
+
+/**
+ * 이벤트를 보내는 함수. 연결이 닫혀 보내지 못하면 false를 반환합니다.
+ */
+export type SendEvent = (event: ServerSentEvent) => Promise<boolean>;
+
+/**
+ * responseEventStream 옵션
+ */
+export type EventStreamOptions = ErrorResponseOptions & {
+  /** 클라이언트 연결 종료를 알리는 signal (c.req.raw.signal) */
+  signal?: AbortSignal;
+  /** 연결 유지를 위한 heartbeat 주석 전송 간격 (밀리초, 기본값: 15000). false면 보내지 않음 */
+  heartbeat?: number | false;
+  /** 처음에 보낼 재연결 대기 시간 (밀리초) */
+  retry?: number;
+  /** 추가할 응답 헤더 */
+  headers?: Record<string, string>;
+  /** 스트림의 시작, 종료, 이벤트 수, 에러를 기록할 트레이스 로거 (createTraceLoggerOnNocoDB) */
+  trace?: TraceProc;
+};
+
+const DEFAULT_HEARTBEAT_INTERVAL = 15000;
+
+// 필드 값에는 줄바꿈이 들어갈 수 없으므로 제거
+function toFieldValue(value: string | number): string {
+  return String(value).replace(/[\r\n\0]/g, '');
+}
+
+/**
+ * 이벤트를 text/event-stream 형식의 문자열로 만듭니다. 여러 줄의 data는 줄마다 data: 필드로 나눕니다.
+ * @example
+ * formatServerSentEvent({ id: 1, event: "progress", data: { step: 1 } })
+ * // "id: 1\nevent: progress\ndata: {\"step\":1}\n\n"
+ */
+export function formatServerSentEvent(event: ServerSentEvent): string {
+  const lines: string[] = [];
+  if (event.id !== undefined) {
+    lines.push(`id: ${toFieldValue(event.id)}`);
+  }
+  if (event.event !== undefined) {
+    lines.push(`event: ${toFieldValue(event.event)}`);
+  }
+  if (event.retry !== undefined) {
+    lines.push(`retry: ${Math.max(0, Math.floor(event.retry))}`);
+  }
+  const data = typeof event.data === 'string' ? event.data : JSON.stringify(event.data) ?? '';
+  for (const line of data.split(/\r\n|\r|\n/)) {
+    lines.push(`data: ${line}`);
+  }
+  return `${lines.join('\n')}\n\n`;
+}
+
+/**
+ * producer가 보내는 이벤트를 Server-Sent Events로 응답합니다.
+ * - heartbeat 주석을 주기적으로 보내 프록시가 연결을 끊지 않게 함
+ * - 클라이언트가 연결을 끊으면 producer에 전달한 signal이 abort되고 send는 false를 반환
+ * - producer가 예외를 던지면 노출 정책을 적용한 에러 JSON을 error 이벤트로 보내고 종료
+ * @param producer - (send, signal) => 이벤트를 보내는 함수. 반환(resolve)하면 스트림을 닫음
+ */
+export function responseEventStream(
+  producer: (send: SendEvent, signal: AbortSignal) => Promise<void> | void,
+  options: EventStreamOptions = {}
+): Response {
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+  let streamController: ReadableStreamDefaultController<Uint8Array> | undefined;
+  let heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+  let eventCount = 0;
+  let closed = false;
+
+  const write = (text: string): boolean => {
+    if (closed || !streamController) {
+      return false;
+    }
+    streamController.enqueue(encoder.encode(text));
+    return true;
+  };
+
+  const close = () => {
+    if (closed) {
+      return;
+    }
+    closed = true;
+    clearInterval(heartbeatTimer);
+    options.signal?.removeEventListener('abort', disconnect);
+    try {
+      streamController?.close();
+    } catch {
+      // 이미 취소된 스트림
+    }
+  };
+
+  // 클라이언트 연결 종료
+  function disconnect() {
+    abortController.abort();
+    close();
+  }
+
+  const send: SendEvent = async (event) => {
+    const sent = write(formatServerSentEvent(event));
+    if (sent) {
+      eventCount++;
+    }
+    return sent;
+  };
+
+  const run = async (utils?: TraceUtils) => {
+    utils?.stdout('Event stream opened');
+    try {
+      await producer(send, abortController.signal);
+    } finally {
+      utils?.assignDetail({ events: eventCount, disconnected: abortController.signal.aborted });
+      utils?.stdout(abortController.signal.aborted ? 'Event stream disconnected by client' : 'Event stream closed', utils.formatMs('ms'));
+    }
+  };
+
+  const produce = async () => {
+    try {
+      await (options.trace ? options.trace(run) : run());
+    } catch (error) {
+      // 트레이스 로거가 없으면 createErrorHandler의 기본 report와 같이 5xx만 출력
+      if (!options.trace && isServerError(error)) {
+        console.error("[ERROR] Event stream producer failed:", error);
       }
+      const description = describeError(error, options.exposure, options.locale);
+      write(formatServerSentEvent({ event: 'error', data: toErrorJson(description) }));
+    } finally {
+      close();
+    }
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      streamController = controller;
+      if (options.signal?.aborted) {
+        disconnect();
+        return;
+      }
+      options.signal?.addEventListener('abort', disconnect);
+      if (options.retry !== undefined) {
+        write(`retry: ${Math.max(0, Math.floor(options.retry))}\n\n`);
+      }
+      const heartbeat = options.heartbeat ?? DEFAULT_HEARTBEAT_INTERVAL;
+      if (heartbeat !== false && heartbeat > 0) {
+        heartbeatTimer = setInterval(() => write(': heartbeat\n\n'), heartbeat);
+      }
+      produce();
+    },
+    cancel() {
+      disconnect();
+    }
+  });
+
+  const headers = new Headers(options.headers);
+  headers.set('Content-Type', 'text/event-stream; charset=utf-8');
+  headers.set('Cache-Control', 'no-cache');
+  // nginx 등 프록시의 버퍼링 방지
+  headers.set('X-Accel-Buffering', 'no');
+  return new Response(stream, { status: 200, headers });
+}
+
+/* USAGE
+  app.get("/admin/users.csv", async (c)=>{
+    return responseCsv(fetchAllUsers(), { // 배열 또는 async iterable (예: 페이지 단위로 조회하는 async generator)
+      filename: "회원목록.csv",
+      bom: true, // Excel에서 한글이 깨지지 않도록
+      columns: ["id", { key: "name", header: "이름" }, { key: "created_at", header: "가입일", value: (user) => user.created_at.slice(0, 10) }],
     });
+  });
+
+  app.get("/admin/users.ndjson", async (c)=>{
+    return responseNdjson(fetchAllUsers(), { filename: "users.ndjson", columns: ["id", "name"] });
+  });
+
+  async function* fetchAllUsers() {
+    for (let page = 1; ; page++) {
+      const rows = await findUsers({ page, limit: 500 });
+      yield* rows;
+      if (rows.length < 500) return;
+    }
   }
-}
\ No newline at end of file
+*/
+
+/**
+ * 내보내기 응답의 행 목록. 배열이나 async generator처럼 순회 가능한 값이면 모두 사용할 수 있습니다.
+ */
+export type ExportRows<T> = Iterable<T> | AsyncIterable<T>;
+
+/**
+ * 내보낼 열. 문자열은 같은 이름의 키, 객체는 제목(header)과 값 함수(value)를 지정
+ */
+export type ExportColumn<T> = string | { key: string; header?: string; value?: (row: T) => unknown };
+
+/**
+ * responseCsv, responseNdjson 공통 옵션
+ */
+export type ExportResponseOptions<T> = {
+  /** 다운로드 파일명. 지정하면 Content-Disposition: attachment (한글 등은 RFC 5987로 인코딩) */
+  filename?: string;
+  /** 내보낼 열과 순서. 지정하지 않으면 첫 행의 키를 모두 사용 */
+  columns?: ExportColumn<T>[];
+  /** 추가할 응답 헤더 */
+  headers?: Record<string, string>;
+};
+
+/**
+ * responseCsv 옵션
+ */
+export type CsvResponseOptions<T> = ExportResponseOptions<T> & {
+  /** UTF-8 BOM을 붙일지 여부. Excel에서 한글을 열 때 필요 (기본값: false) */
+  bom?: boolean;
+  /** 구분자 (기본값: ",") */
+  delimiter?: string;
+  /** 제목 행을 쓸지 여부 (기본값: true) */
+  header?: boolean;
+  /** =, +, -, @ 로 시작하는 문자열 앞에 '를 붙여 스프레드시트 수식 실행 방지 (기본값: false) */
+  escapeFormulas?: boolean;
+};
+
+type ResolvedColumn<T> = { header: string; value: (row: T) => unknown };
+
+function resolveColumns<T>(columns: ExportColumn<T>[] | undefined, firstRow: T): ResolvedColumn<T>[] {
+  const specs = columns ?? (typeof firstRow === 'object' && firstRow !== null ? Object.keys(firstRow) : []);
+  return specs.map((column) => {
+    const spec = typeof column === 'string' ? { key: column } : column;
+    return { header: spec.header ?? spec.key, value: spec.value ?? ((row: T) => (row as any)?.[spec.key]) };
+  });
+}
+
+/**
+ * 파일 다운로드용 Content-Disposition 헤더 값을 만듭니다.
+ * ASCII가 아닌 파일명은 filename에 대체 이름을, filename*에 RFC 5987로 인코딩한 원래 이름을 담습니다.
+ * @example
+ * formatContentDisposition("회원 목록.csv")
+ * // "attachment; filename=\"_ _.csv\"; filename*=UTF-8''%ED%9A%8C%EC%9B%90%20%EB%AA%A9%EB%A1%9D.csv"
+ */
+export function formatContentDisposition(filename: string, type: 'attachment' | 'inline' = 'attachment'): string {
+  const fallback = filename.replace(/[^\x20-\x7e]+/g, '_').replace(/["\\]/g, '_');
+  if (fallback === filename) {
+    return `${type}; filename="${filename}"`;
+  }
+  const encoded = encodeURIComponent(filename).replace(/['()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+function toAsyncIterator<T>(rows: ExportRows<T>): AsyncIterator<T> | Iterator<T> {
+  return Symbol.asyncIterator in rows ? (rows as AsyncIterable<T>)[Symbol.asyncIterator]() : (rows as Iterable<T>)[Symbol.iterator]();
+}
+
+// 행을 하나씩 읽어 변환하는 스트림. 클라이언트가 읽는 만큼만 행을 가져오므로 전체를 메모리에 올리지 않음
+function streamRows<T>(
+  rows: ExportRows<T>,
+  render: (row: T, index: number) => string,
+  { prefix = '', empty = '' }: { prefix?: string; empty?: string } = {}
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = toAsyncIterator(rows);
+  let index = 0;
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (prefix) {
+        controller.enqueue(encoder.encode(prefix));
+      }
+    },
+    async pull(controller) {
+      try {
+        const next = await iterator.next();
+        if (next.done) {
+          if (index === 0 && empty) {
+            controller.enqueue(encoder.encode(empty));
+          }
+          controller.close();
+          return;
+        }
+        controller.enqueue(encoder.encode(render(next.value, index++)));
+      } catch (error) {
+        // 이미 응답 헤더를 보냈으므로 스트림을 에러로 끝내 잘린 파일임을 알림
+        console.error("[ERROR] Failed to stream export rows:", error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    }
+  });
+}
+
+function exportHeaders(contentType: string, filename: string | undefined, extra: Record<string, string> | undefined): Headers {
+  const headers = new Headers(extra);
+  headers.set('Content-Type', contentType);
+  if (filename !== undefined) {
+    headers.set('Content-Disposition', formatContentDisposition(filename));
+  }
+  return headers;
+}
+
+/**
+ * 행 목록을 CSV(RFC 4180)로 스트리밍 응답합니다.
+ * 구분자, 따옴표, 줄바꿈이 들어간 값은 따옴표로 감싸고, null/undefined는 빈 칸, Date는 ISO 문자열, 객체는 JSON으로 씁니다.
+ * @param rows - 객체의 배열 또는 async iterable
+ */
+export function responseCsv<T>(rows: ExportRows<T>, options: CsvResponseOptions<T> = {}): Response {
+  const delimiter = options.delimiter ?? ',';
+  let columns: ResolvedColumn<T>[] | undefined;
+
+  const formatCell = (value: unknown): string => {
+    let text = value === null || value === undefined ? ''
+      : value instanceof Date ? value.toISOString()
+        : typeof value === 'object' ? JSON.stringify(value)
+          : String(value);
+    if (options.escapeFormulas && typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+      text = `'${text}`;
+    }
+    const needsQuote = text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim();
+    return needsQuote ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const formatLine = (cells: unknown[]) => `${cells.map(formatCell).join(delimiter)}\r\n`;
+
+  // 열을 지정하지 않으면 첫 행에서 결정하므로 제목 행도 첫 행과 함께 씀
+  const render = (row: T, index: number): string => {
+    columns ??= resolveColumns(options.columns, row);
+    const line = formatLine(columns.map((column) => column.value(row)));
+    return index === 0 && options.header !== false ? formatLine(columns.map((column) => column.header)) + line : line;
+  };
+  // 행이 없어도 열을 지정했다면 제목 행은 씀
+  const empty = options.columns && options.header !== false
+    ? formatLine(resolveColumns(options.columns, undefined as T).map((column) => column.header))
+    : '';
+
+  const stream = streamRows(rows, render, { prefix: options.bom ? '\uFEFF' : '', empty });
+  return new Response(stream, { status: 200, headers: exportHeaders('text/csv; charset=utf-8', options.filename, options.headers) });
+}
+
+/**
+ * 행 목록을 NDJSON(줄마다 JSON 하나)으로 스트리밍 응답합니다. columns를 지정하면 해당 키만 그 순서대로 씁니다.
+ * @param rows - 배열 또는 async iterable
+ */
+export function responseNdjson<T>(rows: ExportRows<T>, options: ExportResponseOptions<T> = {}): Response {
+  const columns = options.columns && resolveColumns(options.columns, undefined as T);
+  const render = (row: T): string => {
+    if (!columns) {
+      return `${JSON.stringify(row) ?? 'null'}\n`;
+    }
+    const picked: MutableObject = {};
+    for (const column of columns) {
+      picked[column.header] = column.value(row) ?? null;
+    }
+    return `${JSON.stringify(picked)}\n`;
+  };
+
+  const stream = streamRows(rows, render);
+  return new Response(stream, { status: 200, headers: exportHeaders('application/x-ndjson', options.filename, options.headers) });
+}
@@ -1,6 +1,18 @@
 import { describe, test, expect, spyOn } from "bun:test";
-import { createNextHandlerIfAuthorization } from "./createHandler";
+import { Hono } from "hono";
+import { HTTPException } from "hono/http-exception";
+import {
+  createErrorHandler,
+  createNextHandlerIfAuthorization,
+  createParamsValidator,
+  type AuthCredentials,
+  type AuthorizationOptions,
+  type ErrorHandlerOptions,
+} from "./createHandler";
+import { parseParams } from "./contextParser";
+import { schema } from "./paramSchema";
 import { StatusError } from "./common";
+import { getErrorId } from "./errorExposure";
 
 // Hono Context와 next 함수 모킹
 function createMockContext(headers: Record<string, string> = {}) {
@@ -49,7 +61,7 @@ describe("createNextHandlerIfAuthorization", () => {
       expect(result).toBeInstanceOf(Response);
       expect((result as Response).status).toBe(403);
       const responseJson = await (result as Response).json();
-      expect(responseJson).toEqual({ status: 403, message: "Authorization required" });
+      expect(responseJson).toEqual({ status: 403, message: "Authorization required", errorId: expect.any(String) });
       expect(next.wasCalled()).toBe(false);
     });
 
@@ -67,7 +79,7 @@ describe("createNextHandlerIfAuthorization", () => {
       expect(result).toBeInstanceOf(Response);
       expect((result as Response).status).toBe(401);
       const responseJson = await (result as Response).json();
-      expect(responseJson).toEqual({ status: 401, message: "Authorization format invaild" });
+      expect(responseJson).toEqual({ status: 401, message: "Authorization format invaild", errorId: expect.any(String) });
       expect(next.wasCalled()).toBe(false);
     });
 
@@ -85,7 +97,7 @@ describe("createNextHandlerIfAuthorization", () => {
       expect(result).toBeInstanceOf(Response);
       expect((result as Response).status).toBe(403);
       const responseJson = await (result as Response).json();
-      expect(responseJson).toEqual({ status: 403, message: "Authorization required" });
+      expect(responseJson).toEqual({ status: 403, message: "Authorization required", errorId: expect.any(String) });
       expect(next.wasCalled()).toBe(false);
     });
   });
@@ -183,7 +195,7 @@ describe("createNextHandlerIfAuthorization", () => {
       expect(result).toBeInstanceOf(Response);
       expect((result as Response).status).toBe(500); // catch 블록에서 500으로 변환
       const responseJson = await (result as Response).json();
-      expect(responseJson).toEqual({ status: 500, message: "Internal Server Error" });
+      expect(responseJson).toEqual({ status: 500, message: "Internal Server Error", errorId: expect.any(String) });
       expect(next.wasCalled()).toBe(false);
       expect(consoleSpy).toHaveBeenCalledWith("Error occurred during authorization:", expect.any(StatusError));
 
@@ -207,7 +219,7 @@ describe("createNextHandlerIfAuthorization", () => {
       expect(result).toBeInstanceOf(Response);
       expect((result as Response).status).toBe(500); // catch 블록에서 500으로 변환
       const responseJson = await (result as Response).json();
-      expect(responseJson).toEqual({ status: 500, message: "Internal Server Error" });
+      expect(responseJson).toEqual({ status: 500, message: "Internal Server Error", errorId: expect.any(String) });
       expect(next.wasCalled()).toBe(false);
       expect(consoleSpy).toHaveBeenCalledWith("Error occurred during authorization:", expect.any(StatusError));
 
@@ -230,7 +242,7 @@ describe("createNextHandlerIfAuthorization", () => {
       expect(result).toBeInstanceOf(Response);
       expect((result as Response).status).toBe(500);
       const responseJson = await (result as Response).json();
-      expect(responseJson).toEqual({ status: 500, message: "Internal Server Error" }); // catch 블록에서 일반적인 메시지로 변환
+      expect(responseJson).toEqual({ status: 500, message: "Internal Server Error", errorId: expect.any(String) }); // catch 블록에서 일반적인 메시지로 변환
       expect(next.wasCalled()).toBe(false);
       expect(consoleSpy).toHaveBeenCalledWith("Unexpected authorization process:", "unexpected");
       expect(consoleSpy).toHaveBeenCalledWith("Error occurred during authorization:", expect.any(StatusError));
@@ -258,7 +270,7 @@ describe("createNextHandlerIfAuthorization", () => {
       expect(result).toBeInstanceOf(Response);
       expect((result as Response).status).toBe(500);
       const responseJson = await (result as Response).json();
-      expect(responseJson).toEqual({ status: 500, message: "Internal Server Error" });
+      expect(responseJson).toEqual({ status: 500, message: "Internal Server Error", errorId: expect.any(String) });
       expect(next.wasCalled()).toBe(false);
       expect(consoleSpy).toHaveBeenCalledWith("Error occurred during authorization:", expect.any(Error));
 
@@ -283,7 +295,7 @@ describe("createNextHandlerIfAuthorization", () => {
       expect(result).toBeInstanceOf(Response);
       expect((result as Response).status).toBe(500);
       const responseJson = await (result as Response).json();
-      expect(responseJson).toEqual({ status: 500, message: "Internal Server Error" });
+      expect(responseJson).toEqual({ status: 500, message: "Internal Server Error", errorId: expect.any(String) });
       expect(next.wasCalled()).toBe(false);
       expect(consoleSpy).toHaveBeenCalled();
 
@@ -322,7 +334,7 @@ describe("createNextHandlerIfAuthorization", () => {
       expect(invalidResult).toBeInstanceOf(Response);
       expect((invalidResult as Response).status).toBe(500); // catch 블록에서 500으로 변환
       const invalidResponseJson = await (invalidResult as Response).json();
-      expect(invalidResponseJson).toEqual({ status: 500, message: "Internal Server Error" });
+      expect(invalidResponseJson).toEqual({ status: 500, message: "Internal Server Error", errorId: expect.any(String) });
       expect(invalidNext.wasCalled()).toBe(false);
 
       consoleSpy.mockRestore();
@@ -364,7 +376,7 @@ describe("createNextHandlerIfAuthorization", () => {
       expect(expiredResult).toBeInstanceOf(Response);
       expect((expiredResult as Response).status).toBe(500); // catch 블록에서 500으로 변환
       const expiredResponseJson = await (expiredResult as Response).json();
-      expect(expiredResponseJson).toEqual({ status: 500, message: "Internal Server Error" });
+      expect(expiredResponseJson).toEqual({ status: 500, message: "Internal Server Error", errorId: expect.any(String) });
       expect(expiredNext.wasCalled()).toBe(false);
 
       consoleSpy1.mockRestore();
@@ -382,10 +394,333 @@ describe("createNextHandlerIfAuthorization", () => {
       expect(invalidResult).toBeInstanceOf(Response);
       expect((invalidResult as Response).status).toBe(500); // catch 블록에서 500으로 변환
       const invalidResponseJson = await (invalidResult as Response).json();
-      expect(invalidResponseJson).toEqual({ status: 500, message: "Internal Server Error" });
+      expect(invalidResponseJson).toEqual({ status: 500, message: "Internal Server Error", errorId: expect.any(String) });
       expect(invalidNext.wasCalled()).toBe(false);
 
       consoleSpy2.mockRestore();
     });
   });
+
+  describe("여러 인증 방식", () => {
+    function createApp(options: AuthorizationOptions) {
+      const received: AuthCredentials[] = [];
+      const app = new Hono();
+      app.use("*", createNextHandlerIfAuthorization(async (token, credentials) => {
+        received.push(credentials);
+        return token !== "wrong";
+      }, options));
+      app.all("*", (c) => c.text("ok"));
+      return { app, received };
+    }
+
+    const allSchemes: AuthorizationOptions = {
+      schemes: ["bearer", "basic", { type: "apiKey", header: "X-Service-Key" }, { type: "query", name: "sig" }, { type: "cookie", name: "session" }],
+    };
+
+    test("설정한 방식별로 인증 정보를 찾아 검증 함수에 전달", async () => {
+      const { app, received } = createApp(allSchemes);
+      const basic = Buffer.from("admin:pa:ss").toString("base64");
+
+      const responses = [
+        await app.request("/", { headers: { Authorization: "bearer abc" } }),
+        await app.request("/", { headers: { Authorization: `Basic ${basic}` } }),
+        await app.request("/", { headers: { "X-Service-Key": "key-1" } }),
+        await app.request("/webhooks/payment?sig=hook-1", { method: "POST" }),
+        await app.request("/", { headers: { Cookie: "session=cookie-1" } }),
+      ];
+
+      expect(responses.map((response) => response.status)).toEqual([200, 200, 200, 200, 200]);
+      expect(received).toEqual([
+        { scheme: "bearer", token: "abc" },
+        { scheme: "basic", token: basic, username: "admin", password: "pa:ss" },
+        { scheme: "apiKey", token: "key-1", header: "X-Service-Key" },
+        { scheme: "query", token: "hook-1", name: "sig" },
+        { scheme: "cookie", token: "cookie-1", name: "session" },
+      ]);
+    });
+
+    test("앞에 지정한 방식을 먼저 시도", async () => {
+      const { app, received } = createApp({ schemes: ["query", "apiKey"] });
+
+      await app.request("/?token=from-query", { headers: { "X-API-Key": "from-header" } });
+      await app.request("/", { headers: { "X-API-Key": "from-header" } });
+
+      expect(received.map((credentials) => credentials.scheme)).toEqual(["query", "apiKey"]);
+    });
+
+    test("인증 정보가 없으면 403, 설정하지 않은 Authorization 형식이면 401", async () => {
+      const { app, received } = createApp({ schemes: ["bearer", "apiKey"] });
+
+      const missing = await app.request("/?token=ignored");
+      const unsupported = await app.request("/", { headers: { Authorization: "Basic YTpi" } });
+      const malformedBasic = await createApp(allSchemes).app.request("/", { headers: { Authorization: "Basic bm9jb2xvbg==" } });
+
+      expect(missing.status).toBe(403);
+      expect(((await missing.json()) as any).message).toBe("Authorization required");
+      expect(unsupported.status).toBe(401);
+      expect(malformedBasic.status).toBe(401);
+      expect(received).toHaveLength(0);
+    });
+
+    test("Basic 헤더가 올바르지 않아도 다음 방식으로 인증", async () => {
+      const { app, received } = createApp({ schemes: ["basic", { type: "query" }] });
+
+      const response = await app.request("/?token=s", { headers: { Authorization: "Basic !!!" } });
+
+      expect(response.status).toBe(200);
+      expect(received).toEqual([{ scheme: "query", token: "s", name: "token" }]);
+    });
+
+    test("검증에 실패하면 기존과 같이 500", async () => {
+      const consoleSpy = spyOn(console, "error").mockImplementation(() => { });
+      const { app } = createApp(allSchemes);
+
+      const response = await app.request("/?sig=wrong");
+
+      expect(response.status).toBe(500);
+      consoleSpy.mockRestore();
+    });
+  });
+});
+
+describe("createParamsValidator", () => {
+  const userSchema = schema.object({
+    id: schema.number(),
+    name: schema.string(),
+  });
+
+  test("검증된 파라미터를 c.var.params에 저장", async () => {
+    const app = new Hono();
+    app.put("/user/:id", createParamsValidator({ path: true, coerce: true, schema: userSchema }), (c) => {
+      const params = c.get("params");
+      return c.json({ id: params.id + 1, name: params.name });
+    });
+
+    const response = await app.request("/user/41", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "John" }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ id: 42, name: "John" });
+  });
+
+  test("검증 실패 시 핸들러를 호출하지 않고 422 응답", async () => {
+    let handlerCalled = false;
+    const app = new Hono();
+    app.post("/user", createParamsValidator({ schema: userSchema }), (c) => {
+      handlerCalled = true;
+      return c.text("ok");
+    });
+
+    const response = await app.request("/user?id=abc", { method: "POST" });
+
+    expect(response.status).toBe(422);
+    const body: any = await response.json();
+    expect(body.errors.map((e: any) => e.field)).toEqual(["id", "name"]);
+    expect(handlerCalled).toBe(false);
+  });
+
+  test("미들웨어 이후 parseParams를 다시 호출해도 본문을 재사용", async () => {
+    const app = new Hono();
+    app.post("/upload", createParamsValidator(), async (c) => {
+      const again = await parseParams(c, { selects: ["title"] });
+      return c.json({ first: c.get("params"), again });
+    });
+
+    const body = new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode("title=hello&tags[]=a"));
+        controller.close();
+      }
+    });
+    const response = await app.request("/upload", {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body,
+      duplex: "half",
+    } as RequestInit);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      first: { title: "hello", tags: ["a"] },
+      again: { title: "hello" },
+    });
+  });
+});
+
+describe("createErrorHandler", () => {
+  function createApp(options: ErrorHandlerOptions = {}) {
+    const app = new Hono();
+    const errorHandler = createErrorHandler({ report: () => {}, ...options });
+    app.onError(errorHandler.onError);
+    app.notFound(errorHandler.notFound);
+    app.get("/user/:id", () => {
+      throw StatusError.notFound({ message: "User not found", code: "USER_NOT_FOUND" });
+    });
+    app.get("/api/orders", () => {
+      throw new StatusError("Order failed", 409);
+    });
+    app.get("/boom", () => {
+      throw new Error("boom");
+    });
+    app.post("/params", async (c) => c.json(await parseParams(c, { uploads: { maxFiles: 1 } })));
+    app.get("/http-exception", () => {
+      throw new HTTPException(401, {
+        res: new Response("Unauthorized", { status: 401, headers: { "WWW-Authenticate": 'Basic realm="admin"' } })
+      });
+    });
+    return app;
+  }
+
+  test("Accept가 없으면 기본 형식(JSON)으로 응답", async () => {
+    const response = await createApp().request("/user/1");
+
+    expect(response.status).toBe(404);
+    expect(response.headers.get("Content-Type")).toBe("application/json");
+    expect(response.headers.get("Vary")).toBe("Accept, Accept-Language");
+    expect(await response.json()).toEqual({ status: 404, message: "User not found", code: "USER_NOT_FOUND", errorId: expect.any(String) });
+  });
+
+  test("Accept 헤더에 따라 형식 선택", async () => {
+    const app = createApp();
+
+    const html = await app.request("/user/1", { headers: { Accept: "text/html,application/xhtml+xml,*/*;q=0.8" } });
+    const text = await app.request("/user/1", { headers: { Accept: "text/plain" } });
+    const problem = await app.request("/user/1", { headers: { Accept: "application/problem+json" } });
+
+    expect(html.headers.get("Content-Type")).toBe("text/html; charset=UTF-8");
+    expect(await html.text()).toContain("User not found");
+    expect(await text.text()).toBe("Error: User not found");
+    expect(problem.headers.get("Content-Type")).toBe("application/problem+json");
+    expect(((await problem.json()) as any).instance).toBe("/user/1");
+  });
+
+  test("q 값이 높은 형식을 우선", async () => {
+    const response = await createApp().request("/user/1", { headers: { Accept: "text/html;q=0.5, application/json" } });
+
+    expect(response.headers.get("Content-Type")).toBe("application/json");
+  });
+
+  test("경로 규칙이 Accept보다 우선", async () => {
+    const app = createApp({ routes: [{ path: "/api/*", format: "problem" }] });
+
+    const response = await app.request("/api/orders", { headers: { Accept: "text/html" } });
+
+    expect(response.status).toBe(409);
+    expect(response.headers.get("Content-Type")).toBe("application/problem+json");
+    expect(response.headers.get("Vary")).toBe("Accept-Language");
+  });
+
+  test("defaultFormat과 형식별 옵션 적용", async () => {
+    const app = createApp({ defaultFormat: "text", text: (text) => `[Error] ${text}` });
+
+    const response = await app.request("/boom");
+
+    expect(response.status).toBe(500);
+    expect(await response.text()).toBe("[Error] Error: boom");
+  });
+
+  test("exposure 옵션을 모든 형식에 적용", async () => {
+    const app = createApp({ exposure: "minimal" });
+
+    const json: any = await (await app.request("/boom")).json();
+    const text = await (await app.request("/boom", { headers: { Accept: "text/plain" } })).text();
+
+    expect(json).toEqual({ status: 500, message: "Internal Server Error", errorId: expect.any(String) });
+    expect(text).toStartWith("Error: Internal Server Error\nError ID: ");
+  });
+
+  test("Accept-Language에 맞는 언어로 기본 메시지 응답, 직접 지정한 메시지는 유지", async () => {
+    const app = createApp();
+
+    const missing = await app.request("/missing", { headers: { "Accept-Language": "ko-KR,ko;q=0.9,en;q=0.8" } });
+    const custom = await app.request("/user/1", { headers: { "Accept-Language": "ko" } });
+    const restricted = await createApp({ locales: ["en"] }).request("/missing", { headers: { "Accept-Language": "ko" } });
+
+    expect(missing.headers.get("Content-Language")).toBe("ko");
+    expect(await missing.json()).toEqual({ status: 404, message: "요청한 리소스를 찾을 수 없습니다", errorId: expect.any(String) });
+    expect(((await custom.json()) as any).message).toBe("User not found");
+    expect(restricted.headers.get("Content-Language")).toBe("en");
+    expect(((await restricted.json()) as any).message).toBe("Not Found");
+  });
+
+  test("parseParams가 던지는 에러도 code별 메시지로 번역", async () => {
+    const formData = new FormData();
+    formData.append("a", new File(["a"], "a.txt"));
+    formData.append("b", new File(["b"], "b.txt"));
+
+    const invalidJson = await createApp().request("/params", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "Accept-Language": "ko" },
+      body: "{",
+    });
+    const tooManyFiles = await createApp().request("/params", { method: "POST", headers: { "Accept-Language": "ko" }, body: formData });
+
+    expect(invalidJson.status).toBe(400);
+    expect(await invalidJson.json()).toEqual({
+      status: 400,
+      message: "요청 본문의 JSON 형식이 올바르지 않습니다",
+      code: "INVALID_JSON_BODY",
+      errorId: expect.any(String),
+    });
+    expect(tooManyFiles.status).toBe(413);
+    expect(await tooManyFiles.json()).toEqual({
+      status: 413,
+      message: "파일이 너무 많습니다. 최대 1개까지 허용됩니다",
+      code: "TOO_MANY_FILES",
+      details: { limit: 1 },
+      errorId: expect.any(String),
+    });
+  });
+
+  test("등록되지 않은 경로는 404", async () => {
+    const response = await createApp().request("/missing");
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ status: 404, message: "Not Found", errorId: expect.any(String) });
+  });
+
+  test("HTTPException을 같은 형식으로 변환하고 헤더 유지", async () => {
+    const response = await createApp().request("/http-exception");
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get("WWW-Authenticate")).toBe('Basic realm="admin"');
+    expect(await response.json()).toEqual({ status: 401, message: "Unauthorized", errorId: expect.any(String) });
+  });
+
+  test("HTTPException을 변환해도 원래 에러의 에러 ID를 유지", async () => {
+    const reported: unknown[] = [];
+    const response = await createApp({ report: (error) => { reported.push(error); } }).request("/http-exception");
+
+    const original = (reported[0] as StatusError).cause;
+    expect(original).toBeInstanceOf(HTTPException);
+    expect(response.headers.get("X-Error-Id")).toBe(getErrorId(original));
+    expect(((await response.json()) as any).errorId).toBe(getErrorId(original));
+  });
+
+  test("report 함수에 에러 전달, 지정하지 않으면 5xx만 console.error", async () => {
+    const reported: unknown[] = [];
+    await createApp({ report: (error) => { reported.push(error); } }).request("/boom");
+
+    expect(reported).toHaveLength(1);
+    expect((reported[0] as Error).message).toBe("boom");
+
+    const consoleSpy = spyOn(console, "error").mockImplementation(() => {});
+    const app = new Hono();
+    const errorHandler = createErrorHandler();
+    app.onError(errorHandler.onError);
+    app.get("/boom", () => {
+      throw new Error("boom");
+    });
+    app.get("/missing", () => {
+      throw StatusError.notFound();
+    });
+    await app.request("/missing");
+    expect(consoleSpy).not.toHaveBeenCalled();
+    await app.request("/boom");
+    expect(consoleSpy).toHaveBeenCalledTimes(1);
+    consoleSpy.mockRestore();
+  });
 });
@@ -1,6 +1,21 @@
-import { type Handler, type Context } from "hono";
-import { StatusError } from "./common";
-import { responseJsonError } from "./contextResponse";
+import { type Handler, type Context, type MiddlewareHandler, type ErrorHandler, type NotFoundHandler } from "hono";
+import { getCookie } from "hono/cookie";
+import { HTTPException } from "hono/http-exception";
+import { type FC } from "hono/jsx";
+import { getStatusMessage, isServerError, StatusError } from "./common";
+import { parseParams, type ParseParamsOptions } from "./contextParser";
+import {
+  responseHtmlError,
+  responseJsonError,
+  responseProblemError,
+  responseTextError,
+  type ErrorResponseJson,
+  type HtmlErrorTemplateProps,
+  type ProblemErrorOptions,
+} from "./contextResponse";
+import { getErrorId, setErrorId, type ErrorExposure } from "./errorExposure";
+import { negotiateLocale } from "./errorMessages";
+import { type InferSchemaOutput, type StandardSchemaV1 } from "./paramSchema";
 
 /* USAGE
 
@@ -22,30 +37,145 @@ import { responseJsonError } from "./contextResponse";
 
   app.get("/user/:id", authHandler);
   app.get("/user/:id", (c)=>c.text("Contents"));
+
+  // 여러 인증 방식을 순서대로 시도. 검증 함수는 어떤 방식으로 인증했는지 전달받음
+  const webhookAuthHandler = createNextHandlerIfAuthorization(
+    async function (token, credentials) {
+      switch (credentials.scheme) {
+        case "basic":
+          return credentials.username === "admin" && credentials.password === ADMIN_PASSWORD;
+        case "query":
+          return token === WEBHOOK_SECRET; // POST /webhooks/payment?token=...
+        default:
+          return verifyApiToken(token);
+      }
+    },
+    { schemes: ["bearer", "basic", { type: "apiKey", header: "X-API-Key" }, { type: "query", name: "token" }, { type: "cookie", name: "session" }] }
+  )
 */
-export function createNextHandlerIfAuthorization(validateToken: (token: string) => Promise<boolean | StatusError>): Handler {
+
+/**
+ * 인증 방식
+ * - bearer: Authorization: Bearer <token>
+ * - basic: Authorization: Basic <base64(username:password)>
+ * - apiKey: API 키 헤더 (기본값: X-API-Key)
+ * - query: query string 토큰 (기본값: token). 헤더를 지정할 수 없는 외부 webhook용
+ * - cookie: 쿠키 (기본값: token)
+ */
+export type AuthScheme = "bearer" | "basic" | "apiKey" | "query" | "cookie";
+
+/**
+ * createNextHandlerIfAuthorization에서 시도할 인증 방식과 설정
+ */
+export type AuthSchemeOption =
+  | "bearer"
+  | "basic"
+  | "apiKey"
+  | "query"
+  | "cookie"
+  | { type: "apiKey"; header?: string }
+  | { type: "query"; name?: string }
+  | { type: "cookie"; name?: string };
+
+/**
+ * 요청에서 찾은 인증 정보. 검증 함수의 두 번째 인자로 전달됩니다.
+ */
+export type AuthCredentials =
+  | { scheme: "bearer"; token: string }
+  | { scheme: "basic"; token: string; username: string; password: string }
+  | { scheme: "apiKey"; token: string; header: string }
+  | { scheme: "query"; token: string; name: string }
+  | { scheme: "cookie"; token: string; name: string };
+
+/**
+ * createNextHandlerIfAuthorization 옵션
+ */
+export type AuthorizationOptions = {
+  /** 앞에서부터 순서대로 시도할 인증 방식. 처음 찾은 인증 정보로 검증 (기본값: ["bearer"]) */
+  schemes?: AuthSchemeOption[];
+};
+
+const DEFAULT_API_KEY_HEADER = "X-API-Key";
+const DEFAULT_TOKEN_NAME = "token";
+
+// Authorization 헤더가 있지만 설정한 방식과 맞지 않거나 값이 올바르지 않을 때
+function invalidAuthorizationFormat(): StatusError {
+  return new StatusError("Authorization format invaild", 401);
+}
+
+// 설정한 방식으로 요청에서 인증 정보를 찾음. 없거나 형식이 올바르지 않으면 undefined (다음 방식을 시도)
+function findCredentials(c: Context, option: AuthSchemeOption, authorization: string | undefined): AuthCredentials | undefined {
+  const type = typeof option === "string" ? option : option.type;
+  switch (type) {
+    case "bearer": {
+      if (!authorization || !/^bearer /i.test(authorization)) {
+        return undefined;
+      }
+      return { scheme: "bearer", token: authorization.substring(7) };
+    }
+    case "basic": {
+      if (!authorization || !/^basic /i.test(authorization)) {
+        return undefined;
+      }
+      const token = authorization.substring(6).trim();
+      const decoded = /^[A-Za-z0-9+/]+={0,2}$/.test(token) ? Buffer.from(token, "base64").toString("utf8") : "";
+      const separator = decoded.indexOf(":");
+      if (separator < 0) {
+        return undefined;
+      }
+      return { scheme: "basic", token, username: decoded.slice(0, separator), password: decoded.slice(separator + 1) };
+    }
+    case "apiKey": {
+      const header = (typeof option === "object" && option.type === "apiKey" && option.header) || DEFAULT_API_KEY_HEADER;
+      const token = c.req.header(header);
+      return token ? { scheme: "apiKey", token, header } : undefined;
+    }
+    case "query": {
+      const name = (typeof option === "object" && option.type === "query" && option.name) || DEFAULT_TOKEN_NAME;
+      const token = c.req.query(name);
+      return token ? { scheme: "query", token, name } : undefined;
+    }
+    case "cookie": {
+      const name = (typeof option === "object" && option.type === "cookie" && option.name) || DEFAULT_TOKEN_NAME;
+      const token = getCookie(c, name);
+      return token ? { scheme: "cookie", token, name } : undefined;
+    }
+  }
+}
+
+/**
+ * 요청의 인증 정보를 검증 함수로 확인하고, 통과하면 다음 핸들러를 호출하는 미들웨어를 생성합니다.
+ * schemes에 지정한 방식을 순서대로 시도하여 처음 찾은 인증 정보로 검증합니다.
+ * - 인증 정보가 없으면 403 "Authorization required"
+ * - 어떤 방식으로도 인증 정보를 찾지 못했는데 Authorization 헤더가 있으면(설정하지 않은 방식이거나 값이 올바르지 않음) 401 "Authorization format invaild"
+ * - 검증 함수가 true가 아닌 값을 반환하거나 예외를 던지면 500
+ * @param validateToken - (token, credentials, c) => 인증 여부. credentials.scheme으로 인증 방식을 알 수 있음
+ * @param options - 시도할 인증 방식 (기본값: Bearer만)
+ */
+export function createNextHandlerIfAuthorization(
+  validateToken: (token: string, credentials: AuthCredentials, c: Context) => Promise<boolean | StatusError>,
+  options: AuthorizationOptions = {}
+): Handler {
+  const schemes = options.schemes ?? ["bearer"];
+
   return async (c: Context, next): Promise<Response | void> => {
     const authorization = c.req.header("Authorization");
-    let token = null;
+    let credentials: AuthCredentials | undefined;
 
     try {
-      if (!authorization) {
-        const error = new StatusError("Authorization required", 403);
-        throw error;
+      for (const scheme of schemes) {
+        credentials = findCredentials(c, scheme, authorization);
+        if (credentials) {
+          break;
+        }
       }
 
-      if (authorization.startsWith("Bearer ")) {
-        token = authorization.startsWith("Bearer ")
-          ? authorization.substring(7)
-          : authorization;
-      } else {
-        const error = new StatusError("Authorization format invaild");
-        error.status = 401;
-        throw error;
+      if (!credentials) {
+        throw authorization ? invalidAuthorizationFormat() : new StatusError("Authorization required", 403);
       }
 
       try {
-        const result = await validateToken(token as string)
+        const result = await validateToken(credentials.token, credentials, c)
         if (result instanceof StatusError) {
           throw result
         } else if (result === false) {
@@ -69,3 +199,200 @@ export function createNextHandlerIfAuthorization(validateToken: (token: string)
     }
   }
 }
+
+/* USAGE
+
+  const userParams = createParamsValidator({
+    path: true,
+    schema: schema.object({
+      id: schema.number(),
+      name: schema.string(),
+    }),
+    coerce: true,
+  });
+
+  app.put("/user/:id", authHandler, userParams, (c) => {
+    const { id, name } = c.get("params"); // { id: number; name: string }
+    return c.json({ id, name });
+  });
+*/
+/**
+ * 요청 파라미터를 파싱하고 검증하여 c.var.params에 저장하는 미들웨어를 생성합니다.
+ * 검증에 실패하면 다음 핸들러를 호출하지 않고 responseJsonError로 응답합니다.
+ * 요청 본문은 Context별로 한 번만 읽으므로 이후 핸들러에서 parseParams를 다시 호출해도 안전합니다.
+ * @param options - parseParams 옵션
+ */
+export function createParamsValidator<S extends StandardSchemaV1>(
+  options: ParseParamsOptions & { schema: S }
+): MiddlewareHandler<{ Variables: { params: InferSchemaOutput<S> } }>;
+export function createParamsValidator(
+  options?: ParseParamsOptions
+): MiddlewareHandler<{ Variables: { params: Record<string, any> } }>;
+export function createParamsValidator(options?: ParseParamsOptions): MiddlewareHandler {
+  return async (c: Context, next): Promise<Response | void> => {
+    try {
+      const params = await parseParams(c, options);
+      c.set("params", params);
+    } catch (error) {
+      return responseJsonError(error);
+    }
+    await next();
+  };
+}
+
+/* USAGE
+
+  const errorHandler = createErrorHandler({
+    routes: [{ path: "/api/*", format: "problem" }],
+    html: ErrorPage,
+  });
+
+  app.onError(errorHandler.onError);
+  app.notFound(errorHandler.notFound);
+
+  app.get("/user/:id", async (c) => {
+    throw StatusError.notFound("User not found"); // try/catch 없이 Accept에 맞는 형식으로 응답
+  });
+*/
+
+/**
+ * 에러 응답 형식
+ * - json: responseJsonError
+ * - problem: responseProblemError (application/problem+json)
+ * - html: responseHtmlError
+ * - text: responseTextError
+ */
+export type ErrorResponseFormat = "json" | "problem" | "html" | "text";
+
+/**
+ * createErrorHandler 옵션
+ */
+export type ErrorHandlerOptions = {
+  /** Accept 헤더로 형식을 정할 수 없을 때 사용할 형식 (기본값: "json") */
+  defaultFormat?: ErrorResponseFormat;
+  /** 경로별 형식. 앞에서부터 처음 일치하는 규칙을 Accept 헤더보다 우선 적용. 문자열은 "*" 와일드카드 사용 가능 (예: "/api/*") */
+  routes?: { path: string | RegExp; format: ErrorResponseFormat }[];
+  /** JSON 응답 변환 (responseJsonError의 transform) */
+  json?: (json: ErrorResponseJson) => any;
+  /** problem+json 응답 옵션. instance는 요청 경로로 설정됩니다 */
+  problem?: Omit<ProblemErrorOptions, "instance">;
+  /** HTML 응답 템플릿 (responseHtmlError의 template) */
+  html?: FC<HtmlErrorTemplateProps> | string;
+  /** 텍스트 응답 변환 (responseTextError의 transform) */
+  text?: (text: string) => string;
+  /** 에러 노출 수준 (기본값: setErrorExposure 또는 실행 환경으로 결정) */
+  exposure?: ErrorExposure;
+  /** Accept-Language로 선택할 메시지 언어 목록 (기본값: registerLocale로 등록된 언어 전체, 선택할 수 없으면 "en") */
+  locales?: string[];
+  /** 에러를 기록하는 함수. 지정하지 않으면 5xx 에러만 console.error로 출력 */
+  report?: (error: unknown, c: Context) => void | Promise<void>;
+};
+
+const ACCEPT_FORMATS: [string, ErrorResponseFormat][] = [
+  ["application/problem+json", "problem"],
+  ["application/json", "json"],
+  ["text/html", "html"],
+  ["application/xhtml+xml", "html"],
+  ["text/plain", "text"],
+];
+
+function matchesRoute(pattern: string | RegExp, path: string): boolean {
+  if (pattern instanceof RegExp) {
+    return pattern.test(path);
+  }
+  const escaped = pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\/]/g, "\\$&"));
+  return new RegExp(`^${escaped.join(".*")}$`).test(path);
+}
+
+// Accept 헤더의 q 값이 가장 높은 형식을 선택 (같으면 먼저 나온 형식), */* 만 있으면 기본 형식
+function negotiateFormat(accept: string | undefined, defaultFormat: ErrorResponseFormat): ErrorResponseFormat {
+  let selected: { format: ErrorResponseFormat; quality: number } | undefined;
+  for (const part of (accept ?? "").split(",")) {
+    const [mediaRange = "", ...params] = part.split(";").map((item) => item.trim().toLowerCase());
+    const qParam = params.find((param) => param.startsWith("q="));
+    const quality = qParam ? Number(qParam.slice(2)) : 1;
+    if (!(quality > 0)) {
+      continue;
+    }
+    const format = mediaRange === "*/*" ? defaultFormat : ACCEPT_FORMATS.find(([type]) => type === mediaRange)?.[1];
+    if (format && (!selected || quality > selected.quality)) {
+      selected = { format, quality };
+    }
+  }
+  return selected?.format ?? defaultFormat;
+}
+
+// HTTPException은 StatusError로 변환하고, res에 지정된 헤더(WWW-Authenticate 등)는 유지
+function toStatusError(error: unknown): unknown {
+  if (!(error instanceof HTTPException)) {
+    return error;
+  }
+  const headers: Record<string, string> = {};
+  error.res?.headers.forEach((value, name) => {
+    if (name !== "content-type" && name !== "content-length") {
+      headers[name] = value;
+    }
+  });
+  const statusError = new StatusError(error.message || getStatusMessage(error.status), error.status, { headers, cause: error });
+  // 원래 에러로 기록된 로그와 연결되도록 같은 에러 ID 유지
+  setErrorId(statusError, getErrorId(error));
+  return statusError;
+}
+
+/**
+ * app.onError, app.notFound에 등록할 전역 에러 핸들러를 생성합니다.
+ * 경로 규칙과 Accept 헤더에 따라 JSON, problem+json, HTML, 텍스트 중 하나로 응답하며
+ * 메시지는 Accept-Language로 선택한 언어로 응답합니다 (직접 지정한 메시지는 그대로 유지).
+ * Hono의 HTTPException도 StatusError와 같은 형식으로 변환합니다.
+ * @param options - 형식 선택 규칙과 형식별 옵션
+ * @returns onError, notFound 핸들러
+ */
+export function createErrorHandler(options: ErrorHandlerOptions = {}): { onError: ErrorHandler; notFound: NotFoundHandler } {
+  const defaultFormat = options.defaultFormat ?? "json";
+
+  const respond = (error: unknown, c: Context): Response => {
+    const route = options.routes?.find((rule) => matchesRoute(rule.path, c.req.path));
+    const format = route ? route.format : negotiateFormat(c.req.header("Accept"), defaultFormat);
+    const locale = negotiateLocale(c.req.header("Accept-Language"), options.locales);
+    const common = { exposure: options.exposure, locale };
+    let response: Response;
+    switch (format) {
+      case "problem":
+        response = responseProblemError(error, { ...options.problem, instance: c.req.path, ...common });
+        break;
+      case "html":
+        response = responseHtmlError(error, { template: options.html, ...common });
+        break;
+      case "text":
+        response = responseTextError(error, { transform: options.text, ...common });
+        break;
+      case "json":
+      default:
+        response = responseJsonError(error, { transform: options.json, ...common });
+        break;
+    }
+    if (!route) {
+      response.headers.append("Vary", "Accept");
+    }
+    response.headers.append("Vary", "Accept-Language");
+    response.headers.set("Content-Language", locale);
+    return response;
+  };
+
+  return {
+    onError: async (err, c) => {
+      const error = toStatusError(err);
+      try {
+        if (options.report) {
+          await options.report(error, c);
+        } else if (isServerError(error)) {
+          console.error("[ERROR] Unhandled error:", err);
+        }
+      } catch (reportError) {
+        console.error("[ERROR] Failed to report error:", reportError);
+      }
+      return respond(error, c);
+    },
+    notFound: (c) => respond(StatusError.notFound(), c),
+  };
+}
@@ -0,0 +1,55 @@
+import { describe, test, expect, spyOn, afterEach } from "bun:test";
+import { StatusError } from "./common";
+import { responseJsonError } from "./contextResponse";
+import { createTraceLoggerOnNocoDB } from "./createHook";
+
+describe("createTraceLoggerOnNocoDB", () => {
+  let fetchSpy: ReturnType<typeof spyOn<typeof globalThis, "fetch">> | undefined;
+
+  afterEach(() => {
+    fetchSpy?.mockRestore();
+  });
+
+  // NocoDB로 전송되는 행을 기다림 (로그 전송은 응답을 기다리지 않음)
+  function captureRows(): Promise<any[]> {
+    return new Promise((resolve) => {
+      fetchSpy = spyOn(globalThis, "fetch").mockImplementation((async (_url: any, init: any) => {
+        resolve(JSON.parse(init.body));
+        return new Response("{}", { status: 200 });
+      }) as typeof fetch);
+    });
+  }
+
+  const logger = createTraceLoggerOnNocoDB({ xcToken: "token", baseUrl: "https://nocodb.example.com", tableId: "t1", topic: "test" });
+
+  test("성공한 실행은 error_id, fingerprint 없이 기록", async () => {
+    const rows = captureRows();
+
+    const result = await logger(async (utils) => {
+      utils.stdout("hello");
+      return 42;
+    });
+
+    const [row] = await rows;
+    expect(result).toBe(42);
+    expect(row.topic).toBe("test");
+    expect(row.stdout).toBe("hello");
+    expect(row).not.toHaveProperty("error_id");
+    expect(row).not.toHaveProperty("fingerprint");
+  });
+
+  test("에러가 발생하면 응답의 errorId와 같은 error_id와 fingerprint를 기록", async () => {
+    const rows = captureRows();
+
+    const response = await logger(async () => {
+      throw new StatusError("Upstream failed", 502);
+    }).catch((error) => responseJsonError(error));
+
+    const [row] = await rows;
+    const body: any = await response.json();
+    expect(row.error_id).toBe(body.errorId);
+    expect(row.error_id).toBe(response.headers.get("X-Error-Id"));
+    expect(row.fingerprint).toMatch(/^[0-9a-f]{16}$/);
+    expect(row.stderr).toStartWith("Upstream failed");
+  });
+});
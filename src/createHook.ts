@@ -1,4 +1,5 @@
 import { StatusError, type MutableObject } from "./common";
+import { getErrorFingerprint, getErrorId } from "./errorExposure";
 import { DateTime } from "luxon";
 
 /**
@@ -17,6 +18,10 @@ type TraceLog = {
   stdout: string[];
   /** 오류 메시지 배열 */
   stderr: string[];
+  /** 에러 응답의 errorId (X-Error-Id 헤더)와 같은 값. 에러가 없으면 null */
+  error_id: string | null;
+  /** 반복되는 실패를 묶기 위한 에러 지문. 에러가 없으면 null */
+  fingerprint: string | null;
 };
 
 /**
@@ -37,7 +42,7 @@ type CreateTraceProps = {
 /**
  * 레이스 로깅 중에 사용할 수 있는 유틸리티 함수들
  */
-type TraceUtils = {
+export type TraceUtils = {
   /** 표준 출력 메시지를 기록합니다 */
   stdout: (...texts: (string | number | boolean)[]) => void;
   /** 오류 메시지를 기록합니다 */
@@ -53,7 +58,7 @@ type TraceUtils = {
 /**
  * 트레이스 로거 함수 타입 - 실행 함수와 cloneWith 메서드를 포함
  */
-type TraceProc = {
+export type TraceProc = {
   /** 주어진 함수를 실행하고 결과를 로깅합니다 */
   (trace: (utils: TraceUtils) => any): Promise<any>;
   /** 기존 설정을 기반으로 새로운 로거를 생성합니다 */
@@ -101,7 +106,7 @@ type TraceProc = {
         throw new StatusError("Test error logging", 500);
       });
     } catch (error) {
-      return responseJsonError(c, error);
+      return responseJsonError(error); // 응답의 errorId와 로그의 error_id가 같음
     }
   });
 
@@ -112,7 +117,7 @@ type TraceProc = {
       // ... your code ...
       throw new StatusError("Test error logging", 500);
     }).catch((error)=>{
-      return responseJsonError(c, error);
+      return responseJsonError(error);
     });
   });
 */
@@ -179,6 +184,7 @@ type TraceProc = {
  * 
  * @remarks
  * - 로깅 실패는 메인 로직을 중단시키지 않습니다
+ * - 에러가 발생하면 error_id(에러 응답의 errorId, X-Error-Id와 같은 값)와 fingerprint를 함께 기록합니다
  * - 기본 시간대는 Asia/Seoul이며, timezone 옵션으로 변경 가능합니다
  * - NocoDB API 엔드포인트는 `/api/v2/tables/{tableId}/records` 형식을 사용합니다
  */
@@ -196,6 +202,8 @@ export function createTraceLoggerOnNocoDB({ xcToken, baseUrl, tableId, topic, ti
       detail: {},
       stdout: [],
       stderr: [],
+      error_id: null,
+      fingerprint: null,
     };
 
     const utils: TraceUtils = {
@@ -246,6 +254,8 @@ export function createTraceLoggerOnNocoDB({ xcToken, baseUrl, tableId, topic, ti
           detail: traceLog.detail,
           stdout: traceLog.stdout.join("\n"),
           stderr: traceLog.stderr.join("\n"),
+          // 에러가 있을 때만 전송하여 해당 컬럼이 없는 기존 테이블도 성공 로그는 그대로 기록
+          ...(traceLog.error_id ? { error_id: traceLog.error_id, fingerprint: traceLog.fingerprint } : {}),
         };
 
         const postUrl = new URL(`/api/v2/tables/${nocoDbTableId}/records`, nocoDbHostUrl);
@@ -282,6 +292,9 @@ export function createTraceLoggerOnNocoDB({ xcToken, baseUrl, tableId, topic, ti
       sendTraceLog();
       return result;
     } catch (error: any) {
+      // 같은 에러 객체로 만든 에러 응답의 errorId와 연결됨
+      traceLog.error_id = getErrorId(error);
+      traceLog.fingerprint = getErrorFingerprint(error);
       utils.stderr(error.message);
       if (error.stack) {
         utils.stderr(error.stack);
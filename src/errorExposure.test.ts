@@ -0,0 +1,181 @@
+import { describe, test, expect, afterEach } from "bun:test";
+import { StatusError, ValidationError } from "./common";
+import { describeError, getErrorExposure, getErrorFingerprint, getErrorId, setErrorExposure, setErrorId, toExposedError } from "./errorExposure";
+
+describe("getErrorExposure", () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    setErrorExposure(undefined);
+    for (const key of ["NODE_ENV", "RAILWAY_ENVIRONMENT", "RAILWAY_ENVIRONMENT_NAME"]) {
+      if (originalEnv[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = originalEnv[key];
+      }
+    }
+  });
+
+  function setEnv(env: { NODE_ENV?: string; RAILWAY_ENVIRONMENT?: string; RAILWAY_ENVIRONMENT_NAME?: string }) {
+    for (const key of ["NODE_ENV", "RAILWAY_ENVIRONMENT", "RAILWAY_ENVIRONMENT_NAME"] as const) {
+      if (env[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = env[key];
+      }
+    }
+  }
+
+  test("production 환경은 minimal", () => {
+    setEnv({ RAILWAY_ENVIRONMENT_NAME: "production" });
+    expect(getErrorExposure()).toBe("minimal");
+
+    setEnv({ RAILWAY_ENVIRONMENT: "production" });
+    expect(getErrorExposure()).toBe("minimal");
+
+    setEnv({ NODE_ENV: "production" });
+    expect(getErrorExposure()).toBe("minimal");
+  });
+
+  test("NODE_ENV=development는 full, test는 message", () => {
+    setEnv({ NODE_ENV: "development" });
+    expect(getErrorExposure()).toBe("full");
+
+    setEnv({ NODE_ENV: "test" });
+    expect(getErrorExposure()).toBe("message");
+  });
+
+  test("알 수 없는 환경은 minimal", () => {
+    setEnv({ RAILWAY_ENVIRONMENT_NAME: "staging" });
+    expect(getErrorExposure()).toBe("minimal");
+
+    setEnv({ RAILWAY_ENVIRONMENT: "pr-42" });
+    expect(getErrorExposure()).toBe("minimal");
+
+    setEnv({ NODE_ENV: "staging" });
+    expect(getErrorExposure()).toBe("minimal");
+
+    setEnv({});
+    expect(getErrorExposure()).toBe("minimal");
+  });
+
+  test("setErrorExposure가 환경보다 우선", () => {
+    setEnv({ NODE_ENV: "production" });
+    setErrorExposure("full");
+
+    expect(getErrorExposure()).toBe("full");
+  });
+});
+
+describe("getErrorId", () => {
+  test("같은 에러에는 같은 ID", () => {
+    const error = new Error("boom");
+
+    expect(getErrorId(error)).toBe(getErrorId(error));
+    expect(getErrorId(error)).not.toBe(getErrorId(new Error("boom")));
+    expect(getErrorId(error)).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  test("setErrorId로 지정한 ID 사용", () => {
+    const error = new Error("boom");
+    setErrorId(error, "req-123");
+
+    expect(getErrorId(error)).toBe("req-123");
+    expect(describeError(error, "message").errorId).toBe("req-123");
+  });
+});
+
+describe("describeError", () => {
+  test("minimal: StatusError가 아닌 에러는 일반 메시지와 errorId", () => {
+    const error = new Error("password=secret in SQL");
+
+    const description = describeError(error, "minimal");
+
+    expect(description).toEqual({
+      status: 500,
+      message: "Internal Server Error",
+      errorId: getErrorId(error),
+      redacted: true
+    });
+  });
+
+  test("minimal: 5xx StatusError는 code만 유지하고 details는 숨김", () => {
+    const error = new StatusError("DB host 10.0.0.1 down", 503, { code: "DB_DOWN", details: { host: "10.0.0.1" } });
+
+    const description = describeError(error, "minimal");
+
+    expect(description.message).toBe("Service Unavailable");
+    expect(description.code).toBe("DB_DOWN");
+    expect(description.details).toBeUndefined();
+    expect(description.errorId).toBeDefined();
+  });
+
+  test("minimal: 4xx StatusError는 그대로", () => {
+    const error = new ValidationError([{ field: "name", rule: "required", message: "Required" }]);
+
+    const description = describeError(error, "minimal");
+
+    expect(description.message).toBe("Required");
+    expect(description.errors).toHaveLength(1);
+    expect(description.redacted).toBe(false);
+    expect(description.errorId).toBe(getErrorId(error));
+  });
+
+  test("full: 에러 지문 포함", () => {
+    const error = new Error("boom");
+
+    expect(describeError(error, "full").fingerprint).toBe(getErrorFingerprint(error));
+    expect(describeError(error, "message").fingerprint).toBeUndefined();
+  });
+
+  test("message: 메시지를 그대로, stack은 포함하지 않음", () => {
+    const error = new Error("boom");
+
+    const description = describeError(error, "message");
+
+    expect(description).toEqual({ status: 500, message: "boom", errorId: getErrorId(error), redacted: false });
+  });
+
+  test("full: cause 체인과 stack 포함", () => {
+    const root = new TypeError("socket closed");
+    const error = new StatusError("Upstream failed", 502, { cause: new Error("fetch failed", { cause: root }) });
+
+    const description = describeError(error, "full");
+
+    expect(description.causes).toEqual([
+      { name: "Error", message: "fetch failed" },
+      { name: "TypeError", message: "socket closed" }
+    ]);
+    expect(description.stack).toContain("Upstream failed");
+  });
+});
+
+describe("toExposedError", () => {
+  test("숨긴 경우에만 일반 메시지의 StatusError로 바꿈", () => {
+    const error = new Error("secret");
+
+    const exposed = toExposedError(error, describeError(error, "minimal")) as StatusError;
+
+    expect(exposed).toBeInstanceOf(StatusError);
+    expect(exposed.message).toBe("Internal Server Error");
+    expect(toExposedError(error, describeError(error, "message"))).toBe(error);
+  });
+});
+
+describe("getErrorFingerprint", () => {
+  function fail(message: string) {
+    return new StatusError(message, 500);
+  }
+
+  test("메시지가 달라도 같은 위치의 에러는 같은 지문", () => {
+    expect(getErrorFingerprint(fail("user 1"))).toBe(getErrorFingerprint(fail("user 2")));
+  });
+
+  test("위치, 이름, status가 다르면 다른 지문", () => {
+    const base = getErrorFingerprint(fail("a"));
+
+    expect(getErrorFingerprint(new StatusError("a", 500))).not.toBe(base);
+    expect(getErrorFingerprint(new TypeError("a"))).not.toBe(getErrorFingerprint(new RangeError("a")));
+    expect(getErrorFingerprint("a")).not.toBe(getErrorFingerprint("b"));
+  });
+});
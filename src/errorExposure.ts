@@ -0,0 +1,194 @@
+import { createHash, randomUUID } from "node:crypto";
+import { isStatusError, StatusError, ValidationError, type FieldError } from "./common";
+import { DEFAULT_LOCALE, getLocalizedStatusMessage, localizeError } from "./errorMessages";
+
+// 에러 응답에 노출할 정보의 범위를 실행 환경에 따라 결정하는 정책
+// responseJsonError, responseProblemError, responseTextError, responseHtmlError가 모두 같은 정책을 사용합니다.
+
+/**
+ * 에러 노출 수준
+ * - minimal: 운영 환경. StatusError가 아닌 에러와 5xx는 일반 메시지와 에러 ID만 응답 (환경을 알 수 없을 때의 기본값)
+ * - message: 테스트 환경. 에러 메시지를 그대로 응답
+ * - full: 개발 환경. 메시지와 함께 cause 체인과 stack까지 응답
+ */
+export type ErrorExposure = "minimal" | "message" | "full";
+
+let configuredExposure: ErrorExposure | undefined;
+
+/**
+ * 앱 전체의 에러 노출 수준을 지정합니다. undefined면 다시 실행 환경으로 판단합니다.
+ */
+export function setErrorExposure(exposure: ErrorExposure | undefined) {
+  configuredExposure = exposure;
+}
+
+/**
+ * 현재 에러 노출 수준을 반환합니다. setErrorExposure로 지정한 값이 있으면 항상 그 값을 사용합니다.
+ * 지정하지 않았다면 RAILWAY_ENVIRONMENT_NAME(RAILWAY_ENVIRONMENT), NODE_ENV로 판단합니다.
+ * - 어느 쪽이든 "production"이면 minimal
+ * - NODE_ENV가 "development"면 full, "test"면 message
+ * - 그 외(Railway의 staging 등 다른 환경, NODE_ENV 미지정)는 내부 메시지가 새지 않도록 minimal
+ */
+export function getErrorExposure(): ErrorExposure {
+  if (configuredExposure) {
+    return configuredExposure;
+  }
+  const railwayEnvironment = process.env.RAILWAY_ENVIRONMENT_NAME ?? process.env.RAILWAY_ENVIRONMENT;
+  const nodeEnvironment = process.env.NODE_ENV;
+  if (railwayEnvironment === "production" || nodeEnvironment === "production") {
+    return "minimal";
+  }
+  if (nodeEnvironment === "development") {
+    return "full";
+  }
+  if (nodeEnvironment === "test") {
+    return "message";
+  }
+  return "minimal";
+}
+
+const errorIds = new WeakMap<object, string>();
+
+/**
+ * 에러의 ID를 반환합니다. 같은 에러 객체에는 항상 같은 ID를 돌려주므로 응답과 로그를 연결할 수 있습니다.
+ */
+export function getErrorId(error: unknown): string {
+  if (typeof error !== "object" || error === null) {
+    return randomUUID();
+  }
+  let errorId = errorIds.get(error);
+  if (!errorId) {
+    errorId = randomUUID();
+    errorIds.set(error, errorId);
+  }
+  return errorId;
+}
+
+/**
+ * 에러 ID를 직접 지정합니다. 요청 ID를 에러 ID로 쓰거나, 다른 에러로 감쌀 때 원래 ID를 유지하는 데 사용합니다.
+ * @example
+ * setErrorId(error, c.req.header("X-Request-Id") ?? getErrorId(error));
+ */
+export function setErrorId(error: object, errorId: string) {
+  errorIds.set(error, errorId);
+}
+
+// 지문에 사용할 최대 stack frame 수
+const MAX_FINGERPRINT_FRAMES = 10;
+
+// stack의 "at ..." 줄에서 줄/열 번호와 디렉터리를 제거하여 배포 경로나 코드 수정에 영향받지 않게 정규화
+function normalizeStackFrames(stack: string | undefined): string[] {
+  return (stack ?? "")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.startsWith("at "))
+    .slice(0, MAX_FINGERPRINT_FRAMES)
+    .map((line) => line.replace(/(:\d+)+(\)?)$/, "$2").replace(/(?:[A-Za-z]:)?[^\s()]*[\\/]/g, ""));
+}
+
+/**
+ * 에러의 지문을 반환합니다. 에러 이름(StatusError는 status와 code 포함)과 stack frame으로 만들며,
+ * 메시지는 사용하지 않으므로 같은 위치에서 반복되는 실패를 하나로 묶는 데 사용할 수 있습니다.
+ * @example
+ * getErrorFingerprint(error) // "9f86d081884c7d65"
+ */
+export function getErrorFingerprint(error: unknown): string {
+  const parts = [error instanceof Error ? error.name : typeof error];
+  if (isStatusError(error)) {
+    parts.push(String(error.status), error.code ?? "");
+  }
+  const frames = error instanceof Error ? normalizeStackFrames(error.stack) : [];
+  // stack이 없으면 메시지로 대신 구분
+  parts.push(...(frames.length > 0 ? frames : [String((error as any)?.message ?? error)]));
+  return createHash("sha256").update(parts.join("\n")).digest("hex").slice(0, 16);
+}
+
+/**
+ * 노출 정책을 적용한 에러 정보
+ */
+export type ErrorDescription = {
+  status: number;
+  message: string;
+  code?: string;
+  details?: unknown;
+  errors?: FieldError[];
+  /** 로그와 연결할 에러 ID (getErrorId) */
+  errorId: string;
+  /** full 수준에서 에러 지문 (getErrorFingerprint) */
+  fingerprint?: string;
+  /** full 수준에서 cause 체인 */
+  causes?: { name: string; message: string }[];
+  /** full 수준에서 stack */
+  stack?: string;
+  /** 메시지를 숨겼는지 여부 */
+  redacted: boolean;
+};
+
+// 순환 참조를 막기 위한 cause 체인 최대 깊이
+const MAX_CAUSE_DEPTH = 10;
+
+/**
+ * 에러에서 응답에 사용할 정보를 노출 정책에 따라 추립니다.
+ * @param exposure - 노출 수준 (기본값: getErrorExposure())
+ * @param locale - 메시지 언어 (기본값: "en"). 직접 지정한 메시지는 번역하지 않음
+ */
+export function describeError(
+  error: unknown,
+  exposure: ErrorExposure = getErrorExposure(),
+  locale: string = DEFAULT_LOCALE
+): ErrorDescription {
+  const status: number = (typeof error === 'object' && error && 'status' in error) ? (error.status as number) : 500;
+  const redacted = exposure === "minimal" && (!isStatusError(error) || status >= 500);
+  const localized = localizeError(error, locale);
+  const description: ErrorDescription = {
+    status,
+    message: redacted ? getLocalizedStatusMessage(status, locale) : localized.message,
+    errorId: getErrorId(error),
+    redacted,
+  };
+
+  // 오류 코드는 클라이언트 분기용으로 의도해서 지정한 값이므로 항상 유지
+  if (isStatusError(error)) {
+    if (error.code !== undefined) {
+      description.code = error.code;
+    }
+    if (error.details !== undefined && !redacted) {
+      description.details = error.details;
+    }
+  }
+  if (error instanceof ValidationError) {
+    description.errors = localized.errors ?? error.errors;
+  }
+
+  if (exposure !== "full") {
+    return description;
+  }
+  description.fingerprint = getErrorFingerprint(error);
+  if (error instanceof Error) {
+    const causes: { name: string; message: string }[] = [];
+    let cause = error.cause;
+    while (cause !== undefined && causes.length < MAX_CAUSE_DEPTH) {
+      causes.push({ name: (cause as any)?.name ?? typeof cause, message: (cause as any)?.message ?? String(cause) });
+      cause = cause instanceof Error ? cause.cause : undefined;
+    }
+    if (causes.length > 0) {
+      description.causes = causes;
+    }
+    if (error.stack) {
+      description.stack = error.stack;
+    }
+  }
+  return description;
+}
+
+/**
+ * 메시지를 숨긴 경우 템플릿 등에 원본 대신 전달할 에러를 만듭니다. 숨기지 않았다면 원본을 그대로 반환합니다.
+ */
+export function toExposedError(error: unknown, description: ErrorDescription): unknown {
+  if (!description.redacted) {
+    return error;
+  }
+  const exposed = new StatusError(description.message, description.status, { code: description.code });
+  setErrorId(exposed, description.errorId);
+  return exposed;
+}
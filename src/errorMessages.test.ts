@@ -0,0 +1,114 @@
+import { describe, test, expect } from "bun:test";
+import { StatusError, ValidationError } from "./common";
+import { responseJsonError, responseProblemError } from "./contextResponse";
+import { describeError } from "./errorExposure";
+import { createCodedError, getLocalizedStatusMessage, localizeError, negotiateLocale, registerLocale } from "./errorMessages";
+import { schema, toFieldErrors, validateSchema } from "./paramSchema";
+
+describe("negotiateLocale", () => {
+  test("q 값이 가장 높은 지원 언어를 선택", () => {
+    expect(negotiateLocale("ko-KR,ko;q=0.9,en;q=0.8")).toBe("ko");
+    expect(negotiateLocale("en;q=0.5, ko;q=0.7")).toBe("ko");
+    expect(negotiateLocale("EN-us")).toBe("en");
+  });
+
+  test("지원하지 않는 언어나 헤더가 없으면 기본 언어", () => {
+    expect(negotiateLocale(undefined)).toBe("en");
+    expect(negotiateLocale("fr-FR, de;q=0.5")).toBe("en");
+    expect(negotiateLocale("ko;q=0")).toBe("en");
+    expect(negotiateLocale("ko", ["en"])).toBe("en");
+    expect(negotiateLocale("fr", ["en", "ko"], "ko")).toBe("ko");
+  });
+});
+
+describe("localizeError", () => {
+  test("기본 메시지의 StatusError는 상태 코드별 메시지로 번역", () => {
+    expect(localizeError(StatusError.notFound(), "ko")).toEqual({ message: "요청한 리소스를 찾을 수 없습니다" });
+    expect(localizeError(StatusError.notFound(), "en")).toEqual({ message: "Not Found" });
+    expect(getLocalizedStatusMessage(418, "ko")).toBe("HTTP 418 Error");
+  });
+
+  test("직접 지정한 메시지와 StatusError가 아닌 에러는 그대로 유지", () => {
+    expect(localizeError(StatusError.notFound("User not found"), "ko")).toEqual({ message: "User not found" });
+    expect(localizeError(new Error("boom"), "ko")).toEqual({ message: "boom" });
+  });
+
+  test("code별 메시지가 등록되어 있으면 우선 사용", () => {
+    registerLocale("ko", { codes: { ORDER_LOCKED: "주문 {code}이(가) 잠겨 있습니다" } });
+    registerLocale("ja", { status: { 404: "見つかりません" } });
+
+    expect(localizeError(StatusError.conflict({ code: "ORDER_LOCKED" }), "ko").message).toBe("주문 ORDER_LOCKED이(가) 잠겨 있습니다");
+    expect(localizeError(StatusError.notFound(), "ja").message).toBe("見つかりません");
+    expect(localizeError(StatusError.badRequest(), "ja").message).toBe("Bad Request");
+    expect(negotiateLocale("ja-JP")).toBe("ja");
+  });
+
+  test("내장 code의 에러는 details 값으로 번역하고, 같은 code라도 직접 지정한 메시지는 유지", () => {
+    const error = createCodedError("FILE_TOO_LARGE", 413, { field: "avatar", limit: 1024 });
+
+    expect(error.message).toBe("File 'avatar' exceeds the maximum size of 1024 bytes");
+    expect(error.code).toBe("FILE_TOO_LARGE");
+    expect(error.details).toEqual({ field: "avatar", limit: 1024 });
+    expect(localizeError(error, "ko").message).toBe("파일 'avatar'이(가) 최대 크기 1024바이트를 넘었습니다");
+    expect(localizeError(error, "en").message).toBe(error.message);
+    expect(localizeError(new StatusError("Avatar is too big", 413, { code: "FILE_TOO_LARGE" }), "ko").message).toBe("Avatar is too big");
+  });
+
+  test("parseParams와 schema의 검증 메시지를 번역하고 요약도 다시 생성", async () => {
+    const user = schema.object({
+      name: schema.string({ min: 2 }),
+      age: schema.number({ int: true }),
+      role: schema.enum(["admin", "user"]),
+    });
+    const result = await validateSchema(user, { name: "a", age: 1.5, role: "guest" });
+    const errors = [
+      { field: "email", rule: "required", message: "Required field 'email' is missing or empty" },
+      ...toFieldErrors(result.issues ?? []),
+    ];
+    const error = new ValidationError(errors);
+
+    const english = localizeError(error, "en");
+    const korean = localizeError(error, "ko");
+
+    expect(english).toEqual({ message: error.message, errors });
+    expect(korean.errors?.map((fieldError) => fieldError.message)).toEqual([
+      "필수 항목 'email'이(가) 없거나 비어 있습니다",
+      "2자 이상이어야 합니다",
+      "정수여야 합니다",
+      '"admin", "user" 중 하나여야 합니다',
+    ]);
+    expect(korean.message).toStartWith("입력값 검증에 실패했습니다: 필수 항목 'email'이(가) 없거나 비어 있습니다; name: 2자 이상이어야 합니다");
+  });
+
+  test("직접 지정한 검증 메시지와 요약은 유지", () => {
+    const errors = [
+      { field: "name", rule: "required", message: "이름을 입력해 주세요" },
+      { field: "email", rule: "required", message: "Required field 'email' is missing or empty" },
+    ];
+    const localized = localizeError(new ValidationError(errors, "Check your input"), "ko");
+
+    expect(localized.message).toBe("Check your input");
+    expect(localized.errors?.map((fieldError) => fieldError.message)).toEqual([
+      "이름을 입력해 주세요",
+      "필수 항목 'email'이(가) 없거나 비어 있습니다",
+    ]);
+  });
+});
+
+describe("응답에 언어 적용", () => {
+  test("describeError는 숨긴 메시지도 선택한 언어로 반환", () => {
+    const description = describeError(new Error("db password leaked"), "minimal", "ko");
+
+    expect(description.message).toBe("서버 내부 오류가 발생했습니다");
+    expect(description.errorId).toBeDefined();
+  });
+
+  test("responder의 locale 옵션", async () => {
+    const json: any = await responseJsonError(StatusError.tooManyRequests(), { locale: "ko" }).json();
+    const problem: any = await responseProblemError(StatusError.forbidden(), { locale: "ko" }).json();
+
+    expect(json.message).toBe("요청이 너무 많습니다. 잠시 후 다시 시도해 주세요");
+    expect(problem.title).toBe("접근 권한이 없습니다");
+    expect(problem.detail).toBe("접근 권한이 없습니다");
+  });
+});
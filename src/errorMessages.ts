@@ -0,0 +1,327 @@
+import { getStatusMessage, isStatusError, StatusError, ValidationError, type FieldError } from "./common";
+import { isPlainObject } from "./simpleMethods";
+
+// 에러 응답 메시지 카탈로그 (ko, en 내장)
+// 상태 코드, 오류 코드, 검증 규칙별 메시지를 언어별로 관리하고 Accept-Language로 언어를 선택합니다.
+// 직접 지정한 메시지는 번역하지 않고, 내장 영어 메시지와 같은 경우에만 선택한 언어로 바꿉니다.
+
+/**
+ * 메시지 템플릿에 전달되는 값. 문자열 템플릿에서는 {field}, {limit} 처럼 사용합니다.
+ */
+export type MessageParams = { field: string; [key: string]: unknown };
+
+/**
+ * 메시지 템플릿. 문자열의 {이름}은 params 값으로 바뀝니다.
+ */
+export type MessageTemplate = string | ((params: MessageParams) => string);
+
+/**
+ * 언어별 메시지 카탈로그
+ */
+export type MessageCatalog = {
+  /** 상태 코드별 기본 메시지 */
+  status?: Record<number, string>;
+  /** StatusError의 code별 메시지 (메시지를 직접 지정하지 않은 에러에 사용) */
+  codes?: Record<string, MessageTemplate>;
+  /** 검증 규칙별 메시지 (required, type, min, max, pattern, integer, enum, unknown) */
+  validation?: Record<string, MessageTemplate>;
+  /** 여러 검증 오류를 묶는 요약 제목 */
+  validationFailed?: string;
+};
+
+// 라이브러리가 던지는 StatusError의 code별 영어 메시지 (createCodedError가 이 메시지로 에러를 만듦)
+const EN_CODES = {
+  INVALID_JSON_BODY: "Invalid JSON format in request body",
+  INVALID_NDJSON_BODY: "Invalid NDJSON format in request body",
+  INVALID_XML_BODY: "Invalid XML format in request body",
+  INVALID_FORM_DATA: "Invalid form data format",
+  INVALID_ENCODED_BODY: "Invalid {encoding} encoded request body",
+  UNSUPPORTED_CONTENT_TYPE: "Unsupported content type '{contentType}'",
+  UNSUPPORTED_CONTENT_ENCODING: "Unsupported content encoding '{encoding}'",
+  BODY_TOO_LARGE: "Request body exceeds the maximum size of {limit} bytes",
+  DECOMPRESSED_BODY_TOO_LARGE: "Decompressed request body exceeds the maximum size of {limit} bytes",
+  TOO_MANY_FILES: "Too many files: maximum is {limit}",
+  FILE_TOO_LARGE: "File '{field}' exceeds the maximum size of {limit} bytes",
+  FILE_EXTENSION_NOT_ALLOWED: "File extension '{extension}' is not allowed",
+  FILE_CONTENT_MISMATCH: "File content of '{field}' does not match declared type '{type}'",
+  FILE_TYPE_NOT_ALLOWED: "File type '{type}' is not allowed",
+  UPLOAD_DIRECTORY_NOT_CONFIGURED: "Upload directory is not configured",
+  INVALID_FILE_NAME: "Invalid file name '{fileName}'",
+  CONFLICTING_PARAMETER: "Parameter '{field}' has conflicting values from {source} and {origin}",
+  PARAMETER_TOO_DEEP: "Parameter '{field}' exceeds the maximum depth of {limit}",
+  PARAMETER_NOT_ALLOWED: "Parameter '{field}' is not allowed",
+  TOO_MANY_PARAMETERS: "Too many parameters: maximum is {limit}",
+  LIMIT_TOO_LARGE: "Parameter 'limit' must be at most {limit}",
+  NOT_POSITIVE_INTEGER: "Parameter '{field}' must be a positive integer",
+  PAGINATION_NOT_SUPPORTED: "Parameter '{field}' is not supported; use '{alternative}' instead",
+  SORT_NOT_ALLOWED: "Sorting by '{field}' is not allowed",
+  FILTER_NOT_ALLOWED: "Filtering by '{field}' is not allowed",
+  INVALID_SORT: "Parameter 'sort' must be a comma-separated list of fields",
+  DUPLICATE_SORT_FIELD: "Parameter 'sort' contains duplicate field '{field}'",
+  INVALID_FILTER: "Parameter 'filter' must be in the form filter[field]=value",
+  INVALID_FILTER_VALUE: "Parameter 'filter[{field}]' must be a string or a list of strings",
+  INVALID_CURSOR: "Parameter 'cursor' is invalid",
+} satisfies Record<string, MessageTemplate>;
+
+/**
+ * 라이브러리가 던지는 StatusError의 code (본문 파싱, 업로드 제한, 파라미터 정리, 목록 파라미터)
+ */
+export type BuiltInErrorCode = keyof typeof EN_CODES;
+
+const EN_CATALOG: MessageCatalog = {
+  codes: EN_CODES,
+  validation: {
+    required: "Required field '{field}' is missing or empty",
+    unknown: "Unknown field '{field}' is not allowed",
+    type: "Expected {expected}, received {received}",
+    min: ({ limit, target }) =>
+      target === "length" ? `Must be at least ${limit} characters`
+        : target === "items" ? `Must contain at least ${limit} items`
+          : `Must be greater than or equal to ${limit}`,
+    max: ({ limit, target }) =>
+      target === "length" ? `Must be at most ${limit} characters`
+        : target === "items" ? `Must contain at most ${limit} items`
+          : `Must be less than or equal to ${limit}`,
+    pattern: "Does not match pattern {pattern}",
+    integer: "Expected integer",
+    enum: "Expected one of {values}",
+  },
+  validationFailed: "Validation failed",
+};
+
+const KO_CODES: Record<BuiltInErrorCode, MessageTemplate> = {
+  INVALID_JSON_BODY: "요청 본문의 JSON 형식이 올바르지 않습니다",
+  INVALID_NDJSON_BODY: "요청 본문의 NDJSON 형식이 올바르지 않습니다",
+  INVALID_XML_BODY: "요청 본문의 XML 형식이 올바르지 않습니다",
+  INVALID_FORM_DATA: "폼 데이터 형식이 올바르지 않습니다",
+  INVALID_ENCODED_BODY: "{encoding}(으)로 압축된 요청 본문이 올바르지 않습니다",
+  UNSUPPORTED_CONTENT_TYPE: "지원하지 않는 콘텐츠 형식 '{contentType}'입니다",
+  UNSUPPORTED_CONTENT_ENCODING: "지원하지 않는 콘텐츠 인코딩 '{encoding}'입니다",
+  BODY_TOO_LARGE: "요청 본문이 최대 크기 {limit}바이트를 넘었습니다",
+  DECOMPRESSED_BODY_TOO_LARGE: "압축을 푼 요청 본문이 최대 크기 {limit}바이트를 넘었습니다",
+  TOO_MANY_FILES: "파일이 너무 많습니다. 최대 {limit}개까지 허용됩니다",
+  FILE_TOO_LARGE: "파일 '{field}'이(가) 최대 크기 {limit}바이트를 넘었습니다",
+  FILE_EXTENSION_NOT_ALLOWED: "허용되지 않은 파일 확장자 '{extension}'입니다",
+  FILE_CONTENT_MISMATCH: "파일 '{field}'의 내용이 선언한 형식 '{type}'과(와) 다릅니다",
+  FILE_TYPE_NOT_ALLOWED: "허용되지 않은 파일 형식 '{type}'입니다",
+  UPLOAD_DIRECTORY_NOT_CONFIGURED: "업로드 디렉터리가 설정되지 않았습니다",
+  INVALID_FILE_NAME: "올바르지 않은 파일 이름 '{fileName}'입니다",
+  CONFLICTING_PARAMETER: "파라미터 '{field}'의 값이 {source}와(과) {origin}에서 서로 다릅니다",
+  PARAMETER_TOO_DEEP: "파라미터 '{field}'이(가) 최대 깊이 {limit}을(를) 넘었습니다",
+  PARAMETER_NOT_ALLOWED: "허용되지 않은 파라미터 '{field}'입니다",
+  TOO_MANY_PARAMETERS: "파라미터가 너무 많습니다. 최대 {limit}개까지 허용됩니다",
+  LIMIT_TOO_LARGE: "파라미터 'limit'은(는) {limit} 이하여야 합니다",
+  NOT_POSITIVE_INTEGER: "파라미터 '{field}'은(는) 양의 정수여야 합니다",
+  PAGINATION_NOT_SUPPORTED: "파라미터 '{field}'은(는) 지원하지 않습니다. '{alternative}'을(를) 사용해 주세요",
+  SORT_NOT_ALLOWED: "'{field}'(으)로 정렬할 수 없습니다",
+  FILTER_NOT_ALLOWED: "'{field}'(으)로 필터링할 수 없습니다",
+  INVALID_SORT: "파라미터 'sort'는 쉼표로 구분한 필드 목록이어야 합니다",
+  DUPLICATE_SORT_FIELD: "파라미터 'sort'에 중복된 필드 '{field}'이(가) 있습니다",
+  INVALID_FILTER: "파라미터 'filter'는 filter[필드]=값 형식이어야 합니다",
+  INVALID_FILTER_VALUE: "파라미터 'filter[{field}]'는 문자열이나 문자열 목록이어야 합니다",
+  INVALID_CURSOR: "파라미터 'cursor'가 올바르지 않습니다",
+};
+
+const KO_CATALOG: MessageCatalog = {
+  codes: KO_CODES,
+  status: {
+    400: "잘못된 요청입니다",
+    401: "인증이 필요합니다",
+    402: "결제가 필요합니다",
+    403: "접근 권한이 없습니다",
+    404: "요청한 리소스를 찾을 수 없습니다",
+    405: "허용되지 않은 메서드입니다",
+    406: "응답할 수 있는 형식이 없습니다",
+    408: "요청 시간이 초과되었습니다",
+    409: "요청이 현재 상태와 충돌합니다",
+    410: "더 이상 사용할 수 없는 리소스입니다",
+    412: "요청의 전제 조건을 만족하지 않습니다",
+    413: "요청 본문이 너무 큽니다",
+    415: "지원하지 않는 미디어 형식입니다",
+    422: "처리할 수 없는 요청입니다",
+    429: "요청이 너무 많습니다. 잠시 후 다시 시도해 주세요",
+    500: "서버 내부 오류가 발생했습니다",
+    501: "지원하지 않는 기능입니다",
+    502: "상위 서버에서 잘못된 응답을 받았습니다",
+    503: "서비스를 일시적으로 사용할 수 없습니다",
+    504: "상위 서버의 응답 시간이 초과되었습니다",
+  },
+  validation: {
+    required: "필수 항목 '{field}'이(가) 없거나 비어 있습니다",
+    unknown: "허용되지 않은 항목 '{field}'입니다",
+    type: "{expected} 형식이어야 합니다 (입력: {received})",
+    min: ({ limit, target }) =>
+      target === "length" ? `${limit}자 이상이어야 합니다`
+        : target === "items" ? `${limit}개 이상이어야 합니다`
+          : `${limit} 이상이어야 합니다`,
+    max: ({ limit, target }) =>
+      target === "length" ? `${limit}자 이하여야 합니다`
+        : target === "items" ? `${limit}개 이하여야 합니다`
+          : `${limit} 이하여야 합니다`,
+    pattern: "형식이 올바르지 않습니다",
+    integer: "정수여야 합니다",
+    enum: "{values} 중 하나여야 합니다",
+  },
+  validationFailed: "입력값 검증에 실패했습니다",
+};
+
+/**
+ * 기본 언어. 카탈로그에 없는 메시지도 이 언어로 대체됩니다.
+ */
+export const DEFAULT_LOCALE = "en";
+
+const catalogs = new Map<string, MessageCatalog>([
+  ["en", EN_CATALOG],
+  ["ko", KO_CATALOG],
+]);
+
+/**
+ * 언어별 메시지를 등록합니다. 이미 있는 언어면 항목 단위로 덮어씁니다.
+ * @example
+ * registerLocale("ko", { codes: { USER_NOT_FOUND: "사용자를 찾을 수 없습니다" } });
+ * registerLocale("ja", { status: { 404: "見つかりません" } });
+ */
+export function registerLocale(locale: string, catalog: MessageCatalog) {
+  const key = locale.toLowerCase();
+  const current = catalogs.get(key) ?? {};
+  catalogs.set(key, {
+    status: { ...current.status, ...catalog.status },
+    codes: { ...current.codes, ...catalog.codes },
+    validation: { ...current.validation, ...catalog.validation },
+    validationFailed: catalog.validationFailed ?? current.validationFailed,
+  });
+}
+
+/**
+ * 등록된 언어 목록을 반환합니다.
+ */
+export function getLocales(): string[] {
+  return [...catalogs.keys()];
+}
+
+/**
+ * Accept-Language 헤더에서 지원하는 언어 중 q 값이 가장 높은 언어를 고릅니다.
+ * "ko-KR"처럼 지역이 붙은 값은 "ko"로도 찾습니다.
+ * @param supported - 지원하는 언어 목록 (기본값: 등록된 언어 전체)
+ * @example
+ * negotiateLocale("ko-KR,ko;q=0.9,en;q=0.8") // "ko"
+ * negotiateLocale(undefined) // "en"
+ */
+export function negotiateLocale(
+  acceptLanguage: string | undefined,
+  supported: string[] = getLocales(),
+  fallback: string = DEFAULT_LOCALE
+): string {
+  const candidates = supported.map((locale) => locale.toLowerCase());
+  let selected: { locale: string; quality: number } | undefined;
+  for (const part of (acceptLanguage ?? "").split(",")) {
+    const [range = "", ...params] = part.split(";").map((item) => item.trim().toLowerCase());
+    const qParam = params.find((param) => param.startsWith("q="));
+    const quality = qParam ? Number(qParam.slice(2)) : 1;
+    if (!range || !(quality > 0) || (selected && quality <= selected.quality)) {
+      continue;
+    }
+    const locale = range === "*"
+      ? fallback
+      : candidates.find((candidate) => candidate === range) ?? candidates.find((candidate) => candidate === range.split("-")[0]);
+    if (locale) {
+      selected = { locale, quality };
+    }
+  }
+  return selected?.locale ?? fallback;
+}
+
+function formatTemplate(template: MessageTemplate, params: MessageParams): string {
+  if (typeof template === "function") {
+    return template(params);
+  }
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => (params[name] === undefined ? placeholder : String(params[name])));
+}
+
+// 선택한 언어의 카탈로그에 없으면 기본 언어의 카탈로그에서 찾음
+function findTemplate<K extends "status" | "codes" | "validation">(
+  locale: string,
+  section: K,
+  key: string | number
+): MessageTemplate | undefined {
+  for (const catalog of [catalogs.get(locale.toLowerCase()), catalogs.get(DEFAULT_LOCALE)]) {
+    const entries = catalog?.[section] as Record<string | number, MessageTemplate> | undefined;
+    if (entries && Object.hasOwn(entries, key)) {
+      return entries[key];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 상태 코드의 기본 메시지를 선택한 언어로 반환합니다.
+ * @example
+ * getLocalizedStatusMessage(404, "ko") // "요청한 리소스를 찾을 수 없습니다"
+ */
+export function getLocalizedStatusMessage(status: number, locale: string = DEFAULT_LOCALE): string {
+  const template = findTemplate(locale, "status", status);
+  return template === undefined ? getStatusMessage(status) : formatTemplate(template, { field: "" });
+}
+
+/**
+ * 내장 code의 영어 메시지로 StatusError를 만듭니다.
+ * params는 details로 응답에 포함되고, localizeError가 같은 값으로 선택한 언어의 메시지를 만듭니다.
+ * @example
+ * throw createCodedError("FILE_TOO_LARGE", 413, { field: "avatar", limit: 1024 });
+ * // StatusError("File 'avatar' exceeds the maximum size of 1024 bytes", 413, { code: "FILE_TOO_LARGE", details: { field: "avatar", limit: 1024 } })
+ */
+export function createCodedError(code: BuiltInErrorCode, status: number, params: Record<string, unknown> = {}): StatusError {
+  const message = formatTemplate(EN_CODES[code], { field: "", ...params });
+  return new StatusError(message, status, Object.keys(params).length > 0 ? { code, details: params } : { code });
+}
+
+// 내장 영어 메시지 그대로인 필드 오류만 번역 (직접 지정한 메시지는 유지)
+function localizeFieldError(error: FieldError, locale: string): FieldError {
+  const englishTemplate = EN_CATALOG.validation?.[error.rule];
+  const template = findTemplate(locale, "validation", error.rule);
+  if (englishTemplate === undefined || template === undefined) {
+    return error;
+  }
+  const params: MessageParams = { ...error.params, field: error.field };
+  if (formatTemplate(englishTemplate, params) !== error.message) {
+    return error;
+  }
+  return { ...error, message: formatTemplate(template, params) };
+}
+
+/**
+ * 에러 메시지와 필드 오류를 선택한 언어로 바꿉니다. 직접 지정한 메시지는 그대로 유지합니다.
+ * - StatusError의 메시지가 상태 코드의 기본 메시지면 code별 메시지, 없으면 상태 코드별 메시지 사용
+ * - 라이브러리가 던진 에러처럼 메시지가 code의 영어 메시지 그대로면 details 값으로 code별 메시지 사용
+ * - ValidationError는 필드 오류를 번역하고, 요약 메시지가 기본값이면 번역한 오류로 다시 요약
+ */
+export function localizeError(
+  error: unknown,
+  locale: string = DEFAULT_LOCALE
+): { message: string; errors?: FieldError[] } {
+  const message: string = (error as any)?.message;
+  if (!isStatusError(error)) {
+    return { message };
+  }
+
+  if (error instanceof ValidationError) {
+    const errors = error.errors.map((fieldError) => localizeFieldError(fieldError, locale));
+    if (message !== ValidationError.summarize(error.errors)) {
+      return { message, errors };
+    }
+    const title = catalogs.get(locale.toLowerCase())?.validationFailed ?? EN_CATALOG.validationFailed;
+    return { message: ValidationError.summarize(errors, title), errors };
+  }
+
+  const params: MessageParams = { field: "", ...(isPlainObject(error.details) ? (error.details as object) : {}), code: error.code, status: error.status };
+  const englishTemplate = error.code !== undefined && Object.hasOwn(EN_CODES, error.code) ? EN_CODES[error.code as BuiltInErrorCode] : undefined;
+  const isBuiltInMessage = message === getStatusMessage(error.status) || (englishTemplate !== undefined && formatTemplate(englishTemplate, params) === message);
+  if (!isBuiltInMessage) {
+    return { message };
+  }
+  const codeTemplate = error.code === undefined ? undefined : findTemplate(locale, "codes", error.code);
+  if (codeTemplate !== undefined) {
+    return { message: formatTemplate(codeTemplate, params) };
+  }
+  return { message: getLocalizedStatusMessage(error.status, locale) };
+}
@@ -1,8 +1,11 @@
 import { describe, test, expect } from "bun:test";
+import { StatusError } from "./common";
+import { DEFAULT_MAX_DEPTH } from "./paramSanitizer";
 import {
   queryStringify,
   splitQueryString,
   queryStringParse,
+  parseNestedEntries,
   buildUrl
 } from "./formHelper";
 
@@ -171,4 +174,56 @@ describe("formHelper", () => {
       expect(result.toString()).toBe("https://example.com/relative/path");
     });
   });
+
+  describe("parseNestedEntries", () => {
+    test("bracket 배열과 반복 키를 배열로 변환", () => {
+      const result = parseNestedEntries(new URLSearchParams("tags[]=a&tags[]=b&id=1&id=2&single[]=x"));
+      expect(result).toEqual({ tags: ["a", "b"], id: ["1", "2"], single: ["x"] });
+    });
+
+    test("중첩 객체와 인덱스 배열 변환", () => {
+      const result = parseNestedEntries(new URLSearchParams("user[name]=x&user[tags][]=a&list[0][v]=1&list[0][w]=2&list[1][v]=3"));
+      expect(result).toEqual({
+        user: { name: "x", tags: ["a"] },
+        list: [{ v: "1", w: "2" }, { v: "3" }]
+      });
+    });
+
+    test("queryStringify 결과를 다시 파싱", () => {
+      const data = { colors: ["red", "blue"], name: "John" };
+      expect(parseNestedEntries(new URLSearchParams(queryStringify(data)))).toEqual(data);
+      expect(parseNestedEntries(new URLSearchParams(queryStringify(data, { arrayFormat: "index" })))).toEqual(data);
+      expect(parseNestedEntries(new URLSearchParams(queryStringify(data, { arrayFormat: "none" })))).toEqual(data);
+    });
+
+    test("큰 인덱스로 희소 배열을 만들지 않음", () => {
+      const result = parseNestedEntries(new URLSearchParams("a[99999999]=x"));
+      expect(result.a).toEqual(["x"]);
+    });
+
+    test("닫히지 않은 bracket은 일반 키로 취급", () => {
+      expect(parseNestedEntries([["a[b", "1"], ["c]", "2"]])).toEqual({ "a[b": "1", "c]": "2" });
+    });
+
+    test("중첩 깊이가 maxDepth를 넘는 bracket 키는 400 오류", () => {
+      expect(parseNestedEntries([["a[b]", "1"]], 1)).toEqual({ a: { b: "1" } });
+      expect(() => parseNestedEntries([["a[b][c]", "1"]], 1)).toThrow("Parameter 'a.b' exceeds the maximum depth of 1");
+
+      try {
+        parseNestedEntries([[`a${"[b]".repeat(20_000)}`, "1"]]);
+        expect.unreachable();
+      } catch (error: any) {
+        expect(error).toBeInstanceOf(StatusError);
+        expect(error.status).toBe(400);
+        expect(error.message).toEndWith(`exceeds the maximum depth of ${DEFAULT_MAX_DEPTH}`);
+      }
+    });
+
+    test("__proto__ 키가 프로토타입을 오염시키지 않음", () => {
+      const result = parseNestedEntries(new URLSearchParams("__proto__[polluted]=yes&a[__proto__][polluted]=yes"));
+      expect(({} as any).polluted).toBeUndefined();
+      expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+      expect(Object.getPrototypeOf(result.a)).toBe(Object.prototype);
+    });
+  });
 });
@@ -1,4 +1,6 @@
 import { type MutableObject } from "./common";
+import { createCodedError } from "./errorMessages";
+import { DEFAULT_MAX_DEPTH } from "./paramSanitizer";
 import queryString from "query-string";
 
 type QueryStringifyOptions = {
@@ -39,4 +41,96 @@ export function buildUrl(baseUrl: string, path?: string, queryParams?: MutableOb
     urlObject.hash = fragment;
   }
   return urlObject
-}
\ No newline at end of file
+}
+// "user[address][city]" -> ["user", "address", "city"], "tags[]" -> ["tags", ""]
+// 중첩 깊이가 maxDepth를 넘으면 나머지 bracket을 읽기 전에 400
+function splitBracketKey(key: string, maxDepth: number): string[] {
+  const matched = key.match(/^([^\[\]]+)((?:\[[^\[\]]*\])+)$/);
+  if (!matched) {
+    return [key];
+  }
+  const segments = [matched[1] as string];
+  for (const [, segment] of (matched[2] as string).matchAll(/\[([^\[\]]*)\]/g)) {
+    if (segments.length > maxDepth) {
+      throw createCodedError("PARAMETER_TOO_DEEP", 400, { field: segments.join("."), limit: maxDepth });
+    }
+    segments.push(segment as string);
+  }
+  return segments;
+}
+
+// __proto__ 같은 키도 프로토타입을 건드리지 않고 자기 속성으로 설정
+function setOwn(target: MutableObject, key: string | number, value: unknown) {
+  Object.defineProperty(target, key, { value, writable: true, enumerable: true, configurable: true });
+}
+
+function isIndexSegment(segment: string): boolean {
+  return /^(0|[1-9]\d*)$/.test(segment);
+}
+
+// 다음 segment가 배열 인덱스면 배열, 아니면 객체를 자식으로 사용
+function createChild(nextSegment: string): MutableObject {
+  return nextSegment === "" || isIndexSegment(nextSegment) ? [] : {};
+}
+
+function assignNested(root: MutableObject, segments: string[], value: unknown) {
+  let container = root;
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i] as string;
+    const next = segments[i + 1];
+
+    if (Array.isArray(container)) {
+      // 인덱스는 순서로만 사용하며, 배열 길이를 넘는 인덱스는 뒤에 추가 (희소 배열 방지)
+      const index = segment === "" || !isIndexSegment(segment) ? container.length : Math.min(Number(segment), container.length);
+      if (next === undefined) {
+        container[index] = value;
+        return;
+      }
+      const child = container[index] ?? createChild(next);
+      container[index] = child;
+      container = child;
+      continue;
+    }
+
+    const existing = Object.hasOwn(container, segment) ? container[segment] : undefined;
+    if (next === undefined) {
+      if (existing === undefined) {
+        setOwn(container, segment, value);
+      } else if (Array.isArray(existing)) {
+        existing.push(value);
+      } else {
+        // 같은 키가 반복되면 배열로 모음
+        setOwn(container, segment, [existing, value]);
+      }
+      return;
+    }
+
+    let child = existing;
+    if (typeof child !== "object" || child === null || child instanceof File) {
+      child = createChild(next);
+      setOwn(container, segment, child);
+    } else if (Array.isArray(child) && next !== "" && !isIndexSegment(next)) {
+      // 배열에 이름 있는 키가 들어오면 객체로 전환
+      child = Object.assign({}, child);
+      setOwn(container, segment, child);
+    }
+    container = child;
+  }
+}
+
+/**
+ * key-value 엔트리 목록을 중첩 객체로 변환합니다.
+ * queryStringify가 만드는 bracket/index/none 배열 형식과 호환됩니다.
+ * @param maxDepth - 허용할 최대 중첩 깊이. sanitize의 maxDepth와 같은 기준 (기본값: DEFAULT_MAX_DEPTH)
+ * @throws {StatusError} 400 - bracket 키의 중첩 깊이가 maxDepth를 넘을 때
+ * @example
+ * parseNestedEntries(new URLSearchParams("tags[]=a&tags[]=b&user[name]=x&id=1&id=2"))
+ * // { tags: ["a", "b"], user: { name: "x" }, id: ["1", "2"] }
+ */
+export function parseNestedEntries<T = string>(entries: Iterable<[string, T]>, maxDepth: number = DEFAULT_MAX_DEPTH): MutableObject {
+  const result: MutableObject = {};
+  for (const [key, value] of entries) {
+    assignNested(result, splitBracketKey(key, maxDepth), value);
+  }
+  return result;
+}
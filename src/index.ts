@@ -1,7 +1,15 @@
+export * from "./bodyParser";
 export * from "./common";
 export * from "./contextParser";
 export * from "./contextResponse";
 export * from "./createHandler";
 export * from "./createHook";
+export * from "./errorExposure";
+export * from "./errorMessages";
 export * from "./formHelper";
-export * from "./simpleMethods";
\ No newline at end of file
+export * from "./listParams";
+export * from "./paramCoercion";
+export * from "./paramSanitizer";
+export * from "./paramSchema";
+export * from "./simpleMethods";
+export * from "./uploadHelper";
\ No newline at end of file
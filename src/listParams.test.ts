@@ -0,0 +1,143 @@
+import { describe, test, expect } from "bun:test";
+import { Hono } from "hono";
+import { StatusError } from "./common";
+import { buildListLinks, decodeCursor, encodeCursor, parseListParams, type ListParams, type ListParamsOptions } from "./listParams";
+
+// 실제 Hono 앱으로 요청을 보내고 parseListParams의 결과 또는 오류를 반환
+async function parseListOf(search: string, options?: ListParamsOptions): Promise<any> {
+  let result: unknown;
+  const app = new Hono();
+  app.get("/posts", async (c) => {
+    result = await parseListParams(c, options).catch((e) => e);
+    return c.body(null, 204);
+  });
+  await app.request(`/posts${search}`);
+  return result;
+}
+
+describe("parseListParams", () => {
+  test("파라미터가 없으면 기본값 사용", async () => {
+    expect(await parseListOf("")).toEqual({ mode: "offset", page: 1, offset: 0, limit: 20, sort: [], filter: {} });
+  });
+
+  test("page, limit, sort, filter를 정규화", async () => {
+    const result = await parseListOf("?page=3&limit=10&sort=-created_at,title&filter[status]=active&filter[tag][]=a&filter[tag][]=b", {
+      sortable: ["created_at", "title"],
+      filterable: ["status", "tag"],
+    });
+
+    expect(result).toEqual({
+      mode: "offset",
+      page: 3,
+      offset: 20,
+      limit: 10,
+      sort: [
+        { field: "created_at", direction: "desc" },
+        { field: "title", direction: "asc" },
+      ],
+      filter: { status: "active", tag: ["a", "b"] },
+    });
+  });
+
+  test("defaultLimit, defaultSort 적용", async () => {
+    const result = await parseListOf("", { defaultLimit: 5, defaultSort: "-id" });
+
+    expect(result.limit).toBe(5);
+    expect(result.sort).toEqual([{ field: "id", direction: "desc" }]);
+  });
+
+  test("page, limit이 양의 정수가 아니면 400", async () => {
+    for (const search of ["?page=0", "?page=abc", "?limit=-1", "?limit=1.5"]) {
+      const error = await parseListOf(search);
+      expect(error).toBeInstanceOf(StatusError);
+      expect(error.status).toBe(400);
+    }
+    expect((await parseListOf("?page=0")).message).toBe("Parameter 'page' must be a positive integer");
+  });
+
+  test("maxLimit을 넘으면 400", async () => {
+    const error = await parseListOf("?limit=51", { maxLimit: 50 });
+
+    expect(error.status).toBe(400);
+    expect(error.message).toBe("Parameter 'limit' must be at most 50");
+  });
+
+  test("허용되지 않은 필드로 정렬, 필터하면 400", async () => {
+    const sortError = await parseListOf("?sort=password", { sortable: ["name"] });
+    const filterError = await parseListOf("?filter[role]=admin", { filterable: ["status"] });
+    const injectionError = await parseListOf("?sort=name;drop");
+
+    expect(sortError.message).toBe("Sorting by 'password' is not allowed");
+    expect(filterError.message).toBe("Filtering by 'role' is not allowed");
+    expect(injectionError.message).toBe("Sorting by 'name;drop' is not allowed");
+  });
+
+  test("중복 정렬 필드와 잘못된 filter 형식은 400", async () => {
+    expect((await parseListOf("?sort=name,-name")).message).toBe("Parameter 'sort' contains duplicate field 'name'");
+    expect((await parseListOf("?filter=active")).message).toBe("Parameter 'filter' must be in the form filter[field]=value");
+    expect((await parseListOf("?filter[a][b]=1")).message).toBe("Parameter 'filter[a]' must be a string or a list of strings");
+  });
+
+  describe("cursor 방식", () => {
+    test("커서를 디코딩", async () => {
+      const cursor = encodeCursor({ id: 42, created_at: "2024-01-01" });
+
+      const result = await parseListOf(`?cursor=${cursor}&limit=10`, { pagination: "cursor" });
+
+      expect(result).toEqual({ mode: "cursor", cursor: { id: 42, created_at: "2024-01-01" }, limit: 10, sort: [], filter: {} });
+    });
+
+    test("커서가 없으면 null", async () => {
+      expect((await parseListOf("", { pagination: "cursor" })).cursor).toBeNull();
+    });
+
+    test("잘못된 커서와 방식에 맞지 않는 파라미터는 400", async () => {
+      expect((await parseListOf("?cursor=not*valid", { pagination: "cursor" })).message).toBe("Parameter 'cursor' is invalid");
+      expect((await parseListOf("?cursor=abc", { pagination: "cursor" })).message).toBe("Parameter 'cursor' is invalid");
+      expect((await parseListOf("?page=2", { pagination: "cursor" })).message).toBe("Parameter 'page' is not supported; use 'cursor' instead");
+      expect((await parseListOf("?cursor=abc")).message).toBe("Parameter 'cursor' is not supported; use 'page' instead");
+    });
+  });
+});
+
+describe("encodeCursor / decodeCursor", () => {
+  test("왕복 변환", () => {
+    expect(decodeCursor(encodeCursor({ id: 1, name: "한글" }))).toEqual({ id: 1, name: "한글" });
+  });
+
+  test("디코딩 결과에서 위험한 키 제거", () => {
+    const cursor = Buffer.from('{"__proto__":{"admin":true},"id":1}').toString("base64url");
+
+    expect(decodeCursor(cursor)).toEqual({ id: 1 });
+  });
+});
+
+describe("buildListLinks", () => {
+  const offsetList: ListParams = { mode: "offset", page: 2, offset: 10, limit: 10, sort: [], filter: {} };
+
+  test("offset 방식은 total로 다음 페이지 판단, 다른 query는 유지", () => {
+    const url = "https://api.example.com/posts?page=2&limit=10&sort=-id&filter%5Bstatus%5D=a%26b";
+
+    const links = buildListLinks(url, offsetList, { total: 35 });
+
+    expect(links.next).toBe("https://api.example.com/posts?limit=10&sort=-id&filter%5Bstatus%5D=a%26b&page=3");
+    expect(links.prev).toBe("https://api.example.com/posts?limit=10&sort=-id&filter%5Bstatus%5D=a%26b&page=1");
+  });
+
+  test("마지막 페이지와 첫 페이지에서는 null", () => {
+    expect(buildListLinks("https://api.example.com/posts?page=2", offsetList, { total: 20 }).next).toBeNull();
+    expect(buildListLinks("https://api.example.com/posts", { ...offsetList, page: 1, offset: 0 }, { hasMore: true })).toEqual({
+      next: "https://api.example.com/posts?page=2",
+      prev: null,
+    });
+  });
+
+  test("cursor 방식은 전달한 커서로 링크 생성", () => {
+    const list: ListParams = { mode: "cursor", cursor: null, limit: 10, sort: [], filter: {} };
+
+    const links = buildListLinks("https://api.example.com/posts?limit=10&cursor=old", list, { nextCursor: { id: 42 } });
+
+    expect(links.next).toBe(`https://api.example.com/posts?limit=10&cursor=${encodeCursor({ id: 42 })}`);
+    expect(links.prev).toBeNull();
+  });
+});
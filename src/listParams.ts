@@ -0,0 +1,245 @@
+import { type Context } from "hono";
+import { type MutableObject } from "./common";
+import { parseParams } from "./contextParser";
+import { createCodedError } from "./errorMessages";
+import { buildUrl } from "./formHelper";
+import { sanitizeParams } from "./paramSanitizer";
+import { isPlainObject } from "./simpleMethods";
+
+// 목록 API의 페이지네이션, 정렬, 필터 파라미터 헬퍼
+// ?page=2&limit=20&sort=-created_at,name&filter[status]=active 형태의 요청을 검증하고 정규화합니다.
+
+/**
+ * 정렬 조건 하나
+ */
+export type SortField = {
+  field: string;
+  direction: "asc" | "desc";
+};
+
+/**
+ * parseListParams 옵션
+ */
+export type ListParamsOptions = {
+  /** 페이지네이션 방식. "offset"은 page, "cursor"는 불투명 커서 사용 (기본값: "offset") */
+  pagination?: "offset" | "cursor";
+  /** limit을 지정하지 않았을 때의 값 (기본값: 20) */
+  defaultLimit?: number;
+  /** 허용할 최대 limit (기본값: 100) */
+  maxLimit?: number;
+  /** 정렬을 허용할 필드. 지정하지 않으면 영문, 숫자, _, . 로 된 필드명만 허용 */
+  sortable?: string[];
+  /** sort를 지정하지 않았을 때의 정렬 (예: "-created_at") */
+  defaultSort?: string;
+  /** 필터를 허용할 필드. 지정하지 않으면 영문, 숫자, _, . 로 된 필드명만 허용 */
+  filterable?: string[];
+};
+
+type ListParamsBase = {
+  limit: number;
+  sort: SortField[];
+  filter: Record<string, string | string[]>;
+};
+
+/**
+ * 정규화된 목록 파라미터
+ */
+export type ListParams =
+  | (ListParamsBase & { mode: "offset"; page: number; offset: number })
+  | (ListParamsBase & { mode: "cursor"; cursor: MutableObject | null });
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const FIELD_PATTERN = /^[A-Za-z_][A-Za-z0-9_.]*$/;
+
+/**
+ * 목록 API의 page, limit, cursor, sort, filter 파라미터를 검증하여 정규화된 객체로 반환합니다.
+ * @param c - Hono Context 객체
+ * @param options - 허용할 정렬/필터 필드와 limit 제한
+ * @throws {StatusError} 400 - 값이 올바르지 않거나 허용되지 않은 필드로 정렬/필터할 때
+ * @example
+ * // GET /posts?page=2&limit=10&sort=-created_at,title&filter[status]=active
+ * const list = await parseListParams(c, { sortable: ["created_at", "title"], filterable: ["status"] });
+ * // { mode: "offset", page: 2, offset: 10, limit: 10,
+ * //   sort: [{ field: "created_at", direction: "desc" }, { field: "title", direction: "asc" }],
+ * //   filter: { status: "active" } }
+ */
+export async function parseListParams(c: Context, options: ListParamsOptions = {}): Promise<ListParams> {
+  const params = await parseParams(c, { selects: ["page", "limit", "cursor", "sort", "filter"] });
+  const pagination = options.pagination ?? "offset";
+  const maxLimit = options.maxLimit ?? MAX_LIMIT;
+
+  const limit = params.limit === undefined ? options.defaultLimit ?? DEFAULT_LIMIT : parsePositiveInteger("limit", params.limit);
+  if (limit > maxLimit) {
+    throw createCodedError("LIMIT_TOO_LARGE", 400, { limit: maxLimit });
+  }
+
+  const base: ListParamsBase = {
+    limit,
+    sort: parseSort(params.sort ?? options.defaultSort, options.sortable),
+    filter: parseFilter(params.filter, options.filterable),
+  };
+
+  if (pagination === "cursor") {
+    if (params.page !== undefined) {
+      throw createCodedError("PAGINATION_NOT_SUPPORTED", 400, { field: "page", alternative: "cursor" });
+    }
+    const cursor = params.cursor === undefined || params.cursor === "" ? null : decodeCursor(params.cursor);
+    return { ...base, mode: "cursor", cursor };
+  }
+
+  if (params.cursor !== undefined) {
+    throw createCodedError("PAGINATION_NOT_SUPPORTED", 400, { field: "cursor", alternative: "page" });
+  }
+  const page = params.page === undefined ? 1 : parsePositiveInteger("page", params.page);
+  return { ...base, mode: "offset", page, offset: (page - 1) * limit };
+}
+
+function parsePositiveInteger(name: string, value: unknown): number {
+  const text = typeof value === "number" ? String(value) : value;
+  if (typeof text !== "string" || !/^\d+$/.test(text) || !Number.isSafeInteger(Number(text)) || Number(text) < 1) {
+    throw createCodedError("NOT_POSITIVE_INTEGER", 400, { field: name });
+  }
+  return Number(text);
+}
+
+function assertAllowedField(kind: "Sorting" | "Filtering", field: string, allowed: string[] | undefined) {
+  const isAllowed = allowed ? allowed.includes(field) : FIELD_PATTERN.test(field);
+  if (!isAllowed) {
+    throw createCodedError(kind === "Sorting" ? "SORT_NOT_ALLOWED" : "FILTER_NOT_ALLOWED", 400, { field });
+  }
+}
+
+// "-created_at,name" -> [{ created_at, desc }, { name, asc }], sort=a&sort=b 처럼 반복된 경우도 허용
+function parseSort(value: unknown, sortable: string[] | undefined): SortField[] {
+  if (value === undefined || value === "") {
+    return [];
+  }
+  const parts = Array.isArray(value) ? value : [value];
+  if (!parts.every((part) => typeof part === "string")) {
+    throw createCodedError("INVALID_SORT", 400);
+  }
+
+  const sort: SortField[] = [];
+  for (const token of (parts as string[]).flatMap((part) => part.split(","))) {
+    const trimmed = token.trim();
+    if (trimmed === "") {
+      continue;
+    }
+    const direction = trimmed.startsWith("-") ? "desc" : "asc";
+    const field = trimmed.replace(/^[-+]/, "");
+    assertAllowedField("Sorting", field, sortable);
+    if (sort.some((item) => item.field === field)) {
+      throw createCodedError("DUPLICATE_SORT_FIELD", 400, { field });
+    }
+    sort.push({ field, direction });
+  }
+  return sort;
+}
+
+// filter[status]=active&filter[tag][]=a&filter[tag][]=b -> { status: "active", tag: ["a", "b"] }
+function parseFilter(value: unknown, filterable: string[] | undefined): Record<string, string | string[]> {
+  if (value === undefined) {
+    return {};
+  }
+  if (!isPlainObject(value)) {
+    throw createCodedError("INVALID_FILTER", 400);
+  }
+
+  const filter: Record<string, string | string[]> = {};
+  for (const [field, fieldValue] of Object.entries(value as MutableObject)) {
+    assertAllowedField("Filtering", field, filterable);
+    const isStringList = Array.isArray(fieldValue) && fieldValue.every((item) => typeof item === "string");
+    if (typeof fieldValue !== "string" && !isStringList) {
+      throw createCodedError("INVALID_FILTER_VALUE", 400, { field });
+    }
+    filter[field] = fieldValue as string | string[];
+  }
+  return filter;
+}
+
+/**
+ * 커서 데이터를 URL에 안전한 불투명 문자열(base64url JSON)로 인코딩합니다.
+ * @example
+ * encodeCursor({ id: 42 }) // "eyJpZCI6NDJ9"
+ */
+export function encodeCursor(payload: MutableObject): string {
+  return Buffer.from(JSON.stringify(payload), "utf8").toString("base64url");
+}
+
+/**
+ * encodeCursor로 만든 커서를 디코딩합니다.
+ * @throws {StatusError} 400 - 커서 형식이 올바르지 않을 때
+ */
+export function decodeCursor(cursor: unknown): MutableObject {
+  if (typeof cursor !== "string" || !/^[A-Za-z0-9_-]+$/.test(cursor)) {
+    throw createCodedError("INVALID_CURSOR", 400);
+  }
+  let payload: unknown;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch (e) {
+    throw createCodedError("INVALID_CURSOR", 400);
+  }
+  if (typeof payload !== "object" || payload === null || Array.isArray(payload)) {
+    throw createCodedError("INVALID_CURSOR", 400);
+  }
+  return sanitizeParams(payload as MutableObject);
+}
+
+/**
+ * 이전/다음 페이지 링크 생성 옵션
+ */
+export type ListLinksOptions = {
+  /** 전체 항목 수. offset 방식에서 다음 페이지 존재 여부 판단에 사용 */
+  total?: number;
+  /** 다음 페이지가 있는지 여부. total을 모를 때 사용 */
+  hasMore?: boolean;
+  /** cursor 방식의 다음 페이지 커서 (객체면 encodeCursor로 인코딩) */
+  nextCursor?: string | MutableObject | null;
+  /** cursor 방식의 이전 페이지 커서 (객체면 encodeCursor로 인코딩) */
+  prevCursor?: string | MutableObject | null;
+};
+
+export type ListLinks = {
+  next: string | null;
+  prev: string | null;
+};
+
+/**
+ * 현재 요청 URL을 기준으로 이전/다음 페이지 링크를 만듭니다.
+ * 다른 query 파라미터(sort, filter 등)는 그대로 유지하고 page 또는 cursor만 바꿉니다.
+ * @param requestUrl - 현재 요청 URL (c.req.url)
+ * @param list - parseListParams의 결과
+ * @example
+ * const list = await parseListParams(c);
+ * const { rows, total } = await findPosts(list);
+ * return c.json({ data: rows, links: buildListLinks(c.req.url, list, { total }) });
+ */
+export function buildListLinks(requestUrl: string, list: ListParams, options: ListLinksOptions = {}): ListLinks {
+  if (list.mode === "cursor") {
+    return {
+      next: options.nextCursor ? buildPageUrl(requestUrl, "cursor", toCursorString(options.nextCursor)) : null,
+      prev: options.prevCursor ? buildPageUrl(requestUrl, "cursor", toCursorString(options.prevCursor)) : null,
+    };
+  }
+
+  const hasNext = options.hasMore ?? (options.total !== undefined && list.offset + list.limit < options.total);
+  return {
+    next: hasNext ? buildPageUrl(requestUrl, "page", String(list.page + 1)) : null,
+    prev: list.page > 1 ? buildPageUrl(requestUrl, "page", String(list.page - 1)) : null,
+  };
+}
+
+function toCursorString(cursor: string | MutableObject): string {
+  return typeof cursor === "string" ? cursor : encodeCursor(cursor);
+}
+
+function buildPageUrl(requestUrl: string, key: "page" | "cursor", value: string): string {
+  const url = new URL(requestUrl);
+  const query = new URLSearchParams(url.search);
+  query.delete("page");
+  query.delete("cursor");
+  query.set(key, value);
+  return buildUrl(url.origin, `${url.pathname}?${query.toString()}`).toString();
+}
@@ -0,0 +1,98 @@
+import { describe, test, expect } from "bun:test";
+import { coerceValue, coerceParams } from "./paramCoercion";
+
+describe("coerceValue", () => {
+  describe("auto 규칙", () => {
+    test("숫자 문자열을 숫자로 변환", () => {
+      expect(coerceValue("42")).toBe(42);
+      expect(coerceValue("-3.14")).toBe(-3.14);
+      expect(coerceValue("0")).toBe(0);
+      expect(coerceValue("1e3")).toBe(1000);
+    });
+
+    test("앞자리 0, 공백, 안전 범위를 넘는 정수는 문자열 유지", () => {
+      expect(coerceValue("007")).toBe("007");
+      expect(coerceValue(" 42")).toBe(" 42");
+      expect(coerceValue("")).toBe("");
+      expect(coerceValue("12345678901234567890")).toBe("12345678901234567890");
+    });
+
+    test("true, false, null 변환", () => {
+      expect(coerceValue("true")).toBe(true);
+      expect(coerceValue("false")).toBe(false);
+      expect(coerceValue("null")).toBe(null);
+      expect(coerceValue("TRUE")).toBe("TRUE");
+    });
+
+    test("날짜와 콤마 목록은 auto로 변환하지 않음", () => {
+      expect(coerceValue("2024-01-15")).toBe("2024-01-15");
+      expect(coerceValue("a,b")).toBe("a,b");
+    });
+  });
+
+  describe("명시적 규칙", () => {
+    test("number 규칙", () => {
+      expect(coerceValue(" 007 ", "number")).toBe(7);
+      expect(coerceValue("abc", "number")).toBe("abc");
+      expect(coerceValue("", "number")).toBe("");
+    });
+
+    test("boolean 규칙은 체크박스 값도 처리", () => {
+      expect(coerceValue("on", "boolean")).toBe(true);
+      expect(coerceValue("Yes", "boolean")).toBe(true);
+      expect(coerceValue("0", "boolean")).toBe(false);
+      expect(coerceValue("maybe", "boolean")).toBe("maybe");
+    });
+
+    test("date 규칙은 ISO 8601 문자열을 Date로 변환", () => {
+      const date = coerceValue("2024-01-15T09:30:00+09:00", "date");
+      expect(date).toBeInstanceOf(Date);
+      expect((date as Date).toISOString()).toBe("2024-01-15T00:30:00.000Z");
+      expect(coerceValue("not-a-date", "date")).toBe("not-a-date");
+    });
+
+    test("list 규칙은 콤마로 분리", () => {
+      expect(coerceValue("a, b,c", "list")).toEqual(["a", "b", "c"]);
+      expect(coerceValue("", "list")).toEqual([]);
+    });
+
+    test("string, null 규칙과 사용자 정의 함수", () => {
+      expect(coerceValue("42", "string")).toBe("42");
+      expect(coerceValue("null", "null")).toBe(null);
+      expect(coerceValue("abc", (value) => value.length)).toBe(3);
+    });
+  });
+});
+
+describe("coerceParams", () => {
+  test("옵션이 없으면 그대로 반환", () => {
+    const params = { age: "30" };
+    expect(coerceParams(params, undefined)).toBe(params);
+    expect(coerceParams(params, false)).toBe(params);
+  });
+
+  test("true이면 모든 필드에 auto 적용", () => {
+    expect(coerceParams({ age: "30", active: "true", name: "John" }, true)).toEqual({
+      age: 30,
+      active: true,
+      name: "John"
+    });
+  });
+
+  test("필드별 규칙과 기본 규칙 비활성화", () => {
+    const result = coerceParams(
+      { zip: "01234", age: "30", tags: "a,b", since: "2024-01-01" },
+      { default: false, fields: { age: "number", tags: "list", since: "date" } }
+    );
+
+    expect(result.zip).toBe("01234");
+    expect(result.age).toBe(30);
+    expect(result.tags).toEqual(["a", "b"]);
+    expect(result.since).toBeInstanceOf(Date);
+  });
+
+  test("배열 요소와 File 처리", () => {
+    const file = new File(["x"], "x.txt");
+    expect(coerceParams({ ids: ["1", "2"], file }, true)).toEqual({ ids: [1, 2], file });
+  });
+});
@@ -0,0 +1,152 @@
+import { DateTime } from "luxon";
+import { type MutableObject } from "./common";
+import { isPlainObject } from "./simpleMethods";
+
+// query string, form 필드처럼 문자열로만 전달되는 값을 실제 타입으로 변환하는 유틸리티
+// JSON body는 이미 타입이 있으므로 변환 대상이 아닙니다.
+
+/**
+ * 필드별 변환 규칙
+ * - "auto": 숫자, true/false, null 문자열을 자동 판별하여 변환
+ * - "string": 변환하지 않음
+ * - "number": 숫자로 변환 (실패 시 원본 유지)
+ * - "boolean": true/1/on/yes, false/0/off/no 를 불린으로 변환 (실패 시 원본 유지)
+ * - "null": "null" 문자열을 null로 변환
+ * - "date": ISO 8601 문자열을 Date로 변환 (luxon 사용, 실패 시 원본 유지)
+ * - "list": 콤마로 구분된 문자열을 배열로 변환
+ * - 함수: 직접 변환
+ */
+export type CoerceRule =
+  | "auto"
+  | "string"
+  | "number"
+  | "boolean"
+  | "null"
+  | "date"
+  | "list"
+  | ((value: string) => unknown);
+
+/**
+ * parseParams의 coerce 옵션
+ * - true: 모든 필드에 "auto" 규칙 적용
+ * - 객체: 기본 규칙(default)과 필드별 규칙(fields) 지정
+ */
+export type CoerceOptions =
+  | boolean
+  | {
+    /** fields에 지정되지 않은 필드에 적용할 규칙 (기본값: "auto", false면 변환하지 않음) */
+    default?: CoerceRule | false;
+    /** 필드별 규칙 */
+    fields?: Record<string, CoerceRule>;
+  };
+
+const NUMBER_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+const TRUE_VALUES = ["true", "1", "on", "yes"];
+const FALSE_VALUES = ["false", "0", "off", "no"];
+
+// "007" 같은 앞자리 0 문자열이나 안전 범위를 넘는 정수 ID는 숫자로 바꾸지 않음
+function toAutoNumber(value: string): number | undefined {
+  if (!NUMBER_PATTERN.test(value)) {
+    return undefined;
+  }
+  const num = Number(value);
+  if (!Number.isFinite(num)) {
+    return undefined;
+  }
+  if (Number.isInteger(num) && !Number.isSafeInteger(num)) {
+    return undefined;
+  }
+  return num;
+}
+
+/**
+ * 문자열 값 하나를 규칙에 따라 변환합니다.
+ * 변환할 수 없는 값은 원본 문자열을 그대로 반환하므로 이후 스키마 검증에서 걸러집니다.
+ */
+export function coerceValue(value: string, rule: CoerceRule = "auto"): unknown {
+  if (typeof rule === "function") {
+    return rule(value);
+  }
+
+  switch (rule) {
+    case "auto": {
+      if (value === "true") return true;
+      if (value === "false") return false;
+      if (value === "null") return null;
+      const num = toAutoNumber(value);
+      return num === undefined ? value : num;
+    }
+    case "number": {
+      const trimmed = value.trim();
+      const num = trimmed === "" ? NaN : Number(trimmed);
+      return Number.isFinite(num) ? num : value;
+    }
+    case "boolean": {
+      const lowered = value.trim().toLowerCase();
+      if (TRUE_VALUES.includes(lowered)) return true;
+      if (FALSE_VALUES.includes(lowered)) return false;
+      return value;
+    }
+    case "null":
+      return value === "null" ? null : value;
+    case "date": {
+      const dateTime = DateTime.fromISO(value.trim(), { setZone: true });
+      return dateTime.isValid ? dateTime.toJSDate() : value;
+    }
+    case "list":
+      return value === ""
+        ? []
+        : value.split(",").map((item) => item.trim());
+    case "string":
+    default:
+      return value;
+  }
+}
+
+/**
+ * 객체의 문자열 값(배열 요소, 중첩 객체 포함)을 옵션에 따라 변환합니다.
+ * 중첩 필드의 규칙은 "user.age" 처럼 점으로 구분한 경로로 지정하며, 지정하지 않으면 상위 필드의 규칙을 따릅니다.
+ * 문자열이 아닌 값(File 등)은 그대로 유지됩니다.
+ */
+export function coerceParams(params: MutableObject, options: CoerceOptions | undefined): MutableObject {
+  if (!options) {
+    return params;
+  }
+  const defaultRule = options === true ? "auto" : options.default ?? "auto";
+  const fieldRules = options === true ? {} : options.fields ?? {};
+
+  return coerceObject(params, "", defaultRule, fieldRules);
+}
+
+function coerceObject(
+  params: MutableObject,
+  parentPath: string,
+  inheritedRule: CoerceRule | false,
+  fieldRules: Record<string, CoerceRule>
+): MutableObject {
+  const coerced: MutableObject = {};
+  for (const [key, value] of Object.entries(params)) {
+    const path = parentPath ? `${parentPath}.${key}` : key;
+    const rule = fieldRules[path] ?? inheritedRule;
+    Object.defineProperty(coerced, key, {
+      value: coerceAny(value, path, rule, fieldRules),
+      writable: true,
+      enumerable: true,
+      configurable: true,
+    });
+  }
+  return coerced;
+}
+
+function coerceAny(value: unknown, path: string, rule: CoerceRule | false, fieldRules: Record<string, CoerceRule>): unknown {
+  if (typeof value === "string") {
+    return rule === false ? value : coerceValue(value, rule);
+  }
+  if (Array.isArray(value) && rule !== "list") {
+    return value.map((item) => coerceAny(item, path, rule, fieldRules));
+  }
+  if (isPlainObject(value)) {
+    return coerceObject(value as MutableObject, path, rule, fieldRules);
+  }
+  return value;
+}
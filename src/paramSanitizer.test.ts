@@ -0,0 +1,75 @@
+import { describe, test, expect } from "bun:test";
+import { StatusError } from "./common";
+import { DEFAULT_MAX_DEPTH, sanitizeParams } from "./paramSanitizer";
+
+describe("sanitizeParams", () => {
+  test("__proto__, constructor, prototype 키를 중첩 객체와 배열에서도 제거", () => {
+    const params = JSON.parse('{"__proto__":{"admin":true},"user":{"constructor":{"prototype":{"x":1}},"name":"a"},"list":[{"__proto__":{"y":1},"v":1}]}');
+
+    const result = sanitizeParams(params);
+
+    expect(result).toEqual({ user: { name: "a" }, list: [{ v: 1 }] });
+    expect(Object.hasOwn(result, "__proto__")).toBe(false);
+    expect(({} as any).admin).toBeUndefined();
+  });
+
+  test("dangerousKeys가 reject면 400 오류", () => {
+    const params = JSON.parse('{"user":{"__proto__":{"admin":true}}}');
+
+    try {
+      sanitizeParams(params, { dangerousKeys: "reject" });
+      expect.unreachable();
+    } catch (error: any) {
+      expect(error).toBeInstanceOf(StatusError);
+      expect(error.status).toBe(400);
+      expect(error.message).toBe("Parameter 'user.__proto__' is not allowed");
+    }
+  });
+
+  test("trim 옵션으로 문자열 앞뒤 공백 제거", () => {
+    expect(sanitizeParams({ name: "  Alice ", tags: [" a ", "b "], age: 3 }, { trim: true })).toEqual({
+      name: "Alice",
+      tags: ["a", "b"],
+      age: 3,
+    });
+  });
+
+  test("File 등 일반 객체가 아닌 값은 그대로 유지", () => {
+    const file = new File(["x"], "a.txt");
+
+    const result = sanitizeParams({ file }, { trim: true });
+
+    expect(result.file).toBe(file);
+  });
+
+  test("maxDepth를 넘으면 400 오류", () => {
+    expect(sanitizeParams({ a: { b: 1 } }, { maxDepth: 1 })).toEqual({ a: { b: 1 } });
+    expect(() => sanitizeParams({ a: { b: { c: 1 } } }, { maxDepth: 1 })).toThrow("Parameter 'a.b' exceeds the maximum depth of 1");
+  });
+
+  test("maxDepth를 지정하지 않아도 기본 깊이를 넘으면 400 오류 (스택 오버플로 방지)", () => {
+    const params = JSON.parse(`{"a":${"[".repeat(200_000)}${"]".repeat(200_000)}}`);
+
+    try {
+      sanitizeParams(params);
+      expect.unreachable();
+    } catch (error: any) {
+      expect(error).toBeInstanceOf(StatusError);
+      expect(error.status).toBe(400);
+      expect(error.message).toEndWith(`exceeds the maximum depth of ${DEFAULT_MAX_DEPTH}`);
+    }
+  });
+
+  test("maxKeys를 넘으면 400 오류 (중첩 키와 배열 요소 포함)", () => {
+    expect(sanitizeParams({ a: 1, b: [1, 2] }, { maxKeys: 4 })).toEqual({ a: 1, b: [1, 2] });
+    expect(() => sanitizeParams({ a: 1, b: [1, 2, 3] }, { maxKeys: 4 })).toThrow("Too many parameters: maximum is 4");
+  });
+
+  test("원본 객체는 변경하지 않음", () => {
+    const params = { name: " a " };
+
+    sanitizeParams(params, { trim: true });
+
+    expect(params.name).toBe(" a ");
+  });
+});
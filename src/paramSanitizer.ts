@@ -0,0 +1,100 @@
+import { type MutableObject } from "./common";
+import { createCodedError } from "./errorMessages";
+
+// 요청 파라미터 정리 (프로토타입 오염 방지, 공백 제거, 깊이/키 개수 제한)
+// parseParams의 sanitize 옵션으로 사용합니다.
+
+/**
+ * 파라미터 정리 옵션
+ */
+export type SanitizeOptions = {
+  /** __proto__, constructor, prototype 키 처리 방식 (기본값: "strip") */
+  dangerousKeys?: "strip" | "reject";
+  /** 문자열 값의 앞뒤 공백 제거 여부 (기본값: false) */
+  trim?: boolean;
+  /** 허용할 최대 중첩 깊이. 최상위 객체의 값이 깊이 1 (기본값: DEFAULT_MAX_DEPTH, 초과 시 400) */
+  maxDepth?: number;
+  /** 허용할 최대 키 개수. 중첩된 객체의 키와 배열 요소도 포함 (초과 시 400) */
+  maxKeys?: number;
+};
+
+/**
+ * 프로토타입 오염에 사용될 수 있는 키
+ */
+export const DANGEROUS_KEYS = ["__proto__", "constructor", "prototype"];
+
+/**
+ * maxDepth를 지정하지 않았을 때의 최대 중첩 깊이. 깊게 중첩된 본문으로 스택이 넘치지 않도록 항상 적용됩니다.
+ */
+export const DEFAULT_MAX_DEPTH = 64;
+
+type SanitizeState = {
+  keyCount: number;
+};
+
+/**
+ * 파라미터 객체를 옵션에 따라 정리한 새 객체를 반환합니다. 원본은 변경하지 않습니다.
+ * @throws {StatusError} 400 - dangerousKeys가 "reject"일 때 위험한 키가 있거나, 깊이/키 개수 제한을 넘을 때
+ * @example
+ * sanitizeParams(JSON.parse('{"__proto__":{"admin":true},"name":" John "}'), { trim: true })
+ * // { name: "John" }
+ */
+export function sanitizeParams(params: MutableObject, options: SanitizeOptions = {}): MutableObject {
+  return sanitizeValue(params, "", 0, options, { keyCount: 0 }) as MutableObject;
+}
+
+function sanitizeValue(value: unknown, path: string, depth: number, options: SanitizeOptions, state: SanitizeState): unknown {
+  if (typeof value === "string") {
+    return options.trim ? value.trim() : value;
+  }
+
+  const isArray = Array.isArray(value);
+  if (!isArray && !isRecord(value)) {
+    return value;
+  }
+
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+  if (depth > maxDepth) {
+    throw createCodedError("PARAMETER_TOO_DEEP", 400, { field: path, limit: maxDepth });
+  }
+
+  if (isArray) {
+    countKeys(state, (value as unknown[]).length, options);
+    return (value as unknown[]).map((item, index) => sanitizeValue(item, joinPath(path, String(index)), depth + 1, options, state));
+  }
+
+  const sanitized: MutableObject = {};
+  const entries = Object.entries(value as MutableObject);
+  countKeys(state, entries.length, options);
+  for (const [key, item] of entries) {
+    const itemPath = joinPath(path, key);
+    if (DANGEROUS_KEYS.includes(key)) {
+      if (options.dangerousKeys === "reject") {
+        throw createCodedError("PARAMETER_NOT_ALLOWED", 400, { field: itemPath });
+      }
+      continue;
+    }
+    sanitized[key] = sanitizeValue(item, itemPath, depth + 1, options, state);
+  }
+  return sanitized;
+}
+
+// "constructor" 키를 가진 객체도 일반 객체로 판단하도록 프로토타입으로 확인
+function isRecord(value: unknown): boolean {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function countKeys(state: SanitizeState, count: number, options: SanitizeOptions) {
+  state.keyCount += count;
+  if (options.maxKeys !== undefined && state.keyCount > options.maxKeys) {
+    throw createCodedError("TOO_MANY_PARAMETERS", 400, { limit: options.maxKeys });
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, test, expect } from "bun:test";
+import { schema, validateSchema, formatIssuePath } from "./paramSchema";
+
+describe("schema", () => {
+  describe("기본 타입 검증", () => {
+    test("string은 문자열만 허용", async () => {
+      expect(await validateSchema(schema.string(), "hello")).toEqual({ value: "hello" });
+
+      const result = await validateSchema(schema.string(), 10);
+      expect(result.issues?.[0]?.message).toBe("Expected string, received number");
+    });
+
+    test("string의 min, max, pattern 검증", async () => {
+      const username = schema.string({ min: 3, max: 5, pattern: /^[a-z]+$/ });
+
+      expect((await validateSchema(username, "abcd")).issues).toBeUndefined();
+      expect((await validateSchema(username, "ab")).issues).toHaveLength(1);
+      expect((await validateSchema(username, "abcdef")).issues).toHaveLength(1);
+      expect((await validateSchema(username, "AB")).issues).toHaveLength(2);
+    });
+
+    test("number는 NaN을 허용하지 않음", async () => {
+      expect((await validateSchema(schema.number(), 1.5)).issues).toBeUndefined();
+      expect((await validateSchema(schema.number(), NaN)).issues).toHaveLength(1);
+      expect((await validateSchema(schema.number(), "1")).issues).toHaveLength(1);
+    });
+
+    test("number의 int, min, max 검증", async () => {
+      const age = schema.number({ int: true, min: 0, max: 150 });
+
+      expect((await validateSchema(age, 30)).issues).toBeUndefined();
+      expect((await validateSchema(age, 30.5)).issues?.[0]?.message).toBe("Expected integer");
+      expect((await validateSchema(age, -1)).issues).toHaveLength(1);
+      expect((await validateSchema(age, 151)).issues).toHaveLength(1);
+    });
+
+    test("boolean, enum, file 검증", async () => {
+      expect((await validateSchema(schema.boolean(), false)).issues).toBeUndefined();
+      expect((await validateSchema(schema.boolean(), "false")).issues).toHaveLength(1);
+
+      expect((await validateSchema(schema.enum(["a", "b"]), "a")).issues).toBeUndefined();
+      expect((await validateSchema(schema.enum(["a", "b"]), "c")).issues?.[0]?.message).toBe('Expected one of "a", "b"');
+
+      const file = new File(["content"], "test.txt");
+      expect((await validateSchema(schema.file(), file)).issues).toBeUndefined();
+      expect((await validateSchema(schema.file(), "test.txt")).issues).toHaveLength(1);
+    });
+  });
+
+  describe("object 검증", () => {
+    const user = schema.object({
+      name: schema.string(),
+      age: schema.optional(schema.number()),
+      tags: schema.optional(schema.array(schema.string())),
+    });
+
+    test("shape에 맞는 객체는 통과하고 정의되지 않은 키는 제외", async () => {
+      const result = await validateSchema(user, { name: "John", age: 30, extra: true });
+      expect(result).toEqual({ value: { name: "John", age: 30 } });
+    });
+
+    test("필수 필드 누락 시 이슈 발생", async () => {
+      const result = await validateSchema(user, { name: "" });
+      expect(result.issues).toHaveLength(1);
+      expect(result.issues?.[0]?.message).toBe("Required field 'name' is missing or empty");
+      expect(formatIssuePath(result.issues?.[0]?.path)).toBe("name");
+    });
+
+    test("모든 이슈가 경로와 함께 수집됨", async () => {
+      const result = await validateSchema(user, { name: 1, age: "x", tags: ["a", 2] });
+      expect(result.issues?.map((issue) => formatIssuePath(issue.path))).toEqual(["name", "age", "tags.1"]);
+    });
+
+    test("객체가 아니면 이슈 발생", async () => {
+      expect((await validateSchema(user, [])).issues?.[0]?.message).toBe("Expected object, received array");
+    });
+  });
+
+  describe("Standard Schema 호환", () => {
+    test("~standard 속성을 제공", () => {
+      const props = schema.string()["~standard"];
+      expect(props.version).toBe(1);
+      expect(props.vendor).toBe("honopang");
+    });
+
+    test("외부 Standard Schema 검증기도 validateSchema로 실행", async () => {
+      const external = {
+        "~standard": {
+          version: 1 as const,
+          vendor: "external",
+          validate: async (value: unknown) =>
+            typeof value === "string" ? { value: value.toUpperCase() } : { issues: [{ message: "nope", path: [{ key: "root" }] }] },
+        },
+      };
+
+      expect(await validateSchema(external, "abc")).toEqual({ value: "ABC" });
+      const result = await validateSchema(external, 1);
+      expect(formatIssuePath(result.issues?.[0]?.path)).toBe("root");
+    });
+  });
+});
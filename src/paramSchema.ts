@@ -0,0 +1,291 @@
+// Standard Schema (https://standardschema.dev) 호환 타입과 내장 스키마 빌더
+// zod, valibot, arktype 등 Standard Schema를 구현한 검증기를 그대로 parseParams에 전달할 수 있고,
+// 외부 의존성 없이 쓸 수 있는 작은 내장 스키마(schema.*)도 함께 제공합니다.
+
+import { type FieldError } from "./common";
+
+/**
+ * Standard Schema v1 인터페이스
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": StandardSchemaV1Props<Input, Output>;
+}
+
+export interface StandardSchemaV1Props<Input = unknown, Output = Input> {
+  /** Standard Schema 버전 */
+  readonly version: 1;
+  /** 검증기 라이브러리 이름 */
+  readonly vendor: string;
+  /** 값을 검증하고 결과를 반환합니다 (비동기 가능) */
+  readonly validate: (value: unknown) => StandardSchemaV1Result<Output> | Promise<StandardSchemaV1Result<Output>>;
+  /** 타입 추론용 필드 (런타임에는 존재하지 않을 수 있음) */
+  readonly types?: StandardSchemaV1Types<Input, Output> | undefined;
+}
+
+export type StandardSchemaV1Result<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaV1Issue> };
+
+export interface StandardSchemaV1Issue {
+  /** 사람이 읽을 수 있는 오류 메시지 */
+  readonly message: string;
+  /** 오류가 발생한 값의 경로 */
+  readonly path?: ReadonlyArray<PropertyKey | StandardSchemaV1PathSegment> | undefined;
+}
+
+export interface StandardSchemaV1PathSegment {
+  readonly key: PropertyKey;
+}
+
+export interface StandardSchemaV1Types<Input = unknown, Output = Input> {
+  readonly input: Input;
+  readonly output: Output;
+}
+
+/** 스키마의 출력 타입을 추론합니다 */
+export type InferSchemaOutput<S extends StandardSchemaV1> = NonNullable<S["~standard"]["types"]>["output"];
+
+/**
+ * Standard Schema 검증을 실행합니다.
+ * @returns 성공 시 { value }, 실패 시 { issues }
+ */
+export async function validateSchema<S extends StandardSchemaV1>(
+  schema: S,
+  value: unknown
+): Promise<StandardSchemaV1Result<InferSchemaOutput<S>>> {
+  return await schema["~standard"].validate(value);
+}
+
+/**
+ * 이슈의 경로를 "user.tags.0" 형태의 문자열로 변환합니다.
+ */
+export function formatIssuePath(path: StandardSchemaV1Issue["path"]): string {
+  if (!path || path.length === 0) {
+    return "";
+  }
+  return path
+    .map((segment) => (typeof segment === "object" && segment !== null ? segment.key : segment))
+    .map((key) => String(key))
+    .join(".");
+}
+
+/**
+ * 스키마 이슈를 필드 단위 검증 오류로 변환합니다.
+ * 규칙은 내장 스키마의 rule, 외부 검증기의 code(zod 등) 순으로 사용하고 없으면 "invalid"가 됩니다.
+ */
+export function toFieldErrors(issues: ReadonlyArray<StandardSchemaV1Issue>): FieldError[] {
+  return issues.map((issue) => {
+    const extra = issue as { rule?: unknown; code?: unknown; params?: unknown };
+    const rule = typeof extra.rule === "string" ? extra.rule : typeof extra.code === "string" ? extra.code : "invalid";
+    const fieldError: FieldError = { field: formatIssuePath(issue.path), rule, message: issue.message };
+    if (typeof extra.params === "object" && extra.params !== null) {
+      fieldError.params = extra.params as Record<string, unknown>;
+    }
+    return fieldError;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// 내장 스키마
+// ---------------------------------------------------------------------------
+
+/**
+ * 내장 스키마의 검증 이슈. 위반한 규칙(rule)을 함께 담습니다.
+ */
+export type ParamSchemaIssue = StandardSchemaV1Issue & {
+  /** 위반한 규칙 (예: "required", "type", "min") */
+  readonly rule: string;
+  /** 메시지를 다른 언어로 만들 때 사용할 값 (예: { limit: 3, target: "length" }) */
+  readonly params?: Record<string, unknown>;
+};
+
+type SchemaCheck<T> = (value: unknown, path: PropertyKey[], issues: ParamSchemaIssue[]) => T;
+
+/**
+ * 내장 스키마 타입. Standard Schema를 구현하므로 외부 검증기와 동일하게 취급됩니다.
+ */
+export type ParamSchema<T> = StandardSchemaV1<unknown, T> & {
+  /** 내부 검증 함수 */
+  readonly check: SchemaCheck<T>;
+  /** 객체 스키마에서 필드 누락을 허용하는지 여부 */
+  readonly isOptional: boolean;
+};
+
+type ObjectShape = Record<string, ParamSchema<any>>;
+
+type InferShape<Shape extends ObjectShape> = {
+  [K in keyof Shape as Shape[K]["isOptional"] extends true ? never : K]: InferSchemaOutput<Shape[K]>;
+} & {
+  [K in keyof Shape as Shape[K]["isOptional"] extends true ? K : never]?: InferSchemaOutput<Shape[K]>;
+};
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+function defineSchema<T, Optional extends boolean = false>(
+  check: SchemaCheck<T>,
+  isOptional?: Optional
+): ParamSchema<T> & { readonly isOptional: Optional } {
+  return {
+    check,
+    isOptional: (isOptional ?? false) as Optional,
+    "~standard": {
+      version: 1,
+      vendor: "honopang",
+      validate(value: unknown) {
+        const issues: ParamSchemaIssue[] = [];
+        const result = check(value, [], issues);
+        return issues.length > 0 ? { issues } : { value: result };
+      },
+    },
+  };
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === "";
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (value instanceof File) return "file";
+  return typeof value;
+}
+
+/**
+ * parseParams와 함께 사용하는 작은 내장 스키마 빌더
+ * @example
+ * const params = await parseParams(c, {
+ *   schema: schema.object({
+ *     name: schema.string({ min: 1 }),
+ *     age: schema.optional(schema.number({ int: true })),
+ *   })
+ * });
+ * params.name; // string
+ */
+export const schema = {
+  /** 문자열 */
+  string(options: { min?: number; max?: number; pattern?: RegExp } = {}) {
+    return defineSchema<string>((value, path, issues) => {
+      if (typeof value !== "string") {
+        issues.push({ message: `Expected string, received ${describeType(value)}`, path, rule: "type", params: { expected: "string", received: describeType(value) } });
+        return value as string;
+      }
+      if (options.min !== undefined && value.length < options.min) {
+        issues.push({ message: `Must be at least ${options.min} characters`, path, rule: "min", params: { limit: options.min, target: "length" } });
+      }
+      if (options.max !== undefined && value.length > options.max) {
+        issues.push({ message: `Must be at most ${options.max} characters`, path, rule: "max", params: { limit: options.max, target: "length" } });
+      }
+      if (options.pattern && !options.pattern.test(value)) {
+        issues.push({ message: `Does not match pattern ${options.pattern}`, path, rule: "pattern", params: { pattern: String(options.pattern) } });
+      }
+      return value;
+    });
+  },
+
+  /** 숫자 (NaN은 허용하지 않음) */
+  number(options: { min?: number; max?: number; int?: boolean } = {}) {
+    return defineSchema<number>((value, path, issues) => {
+      if (typeof value !== "number" || Number.isNaN(value)) {
+        issues.push({ message: `Expected number, received ${describeType(value)}`, path, rule: "type", params: { expected: "number", received: describeType(value) } });
+        return value as number;
+      }
+      if (options.int && !Number.isInteger(value)) {
+        issues.push({ message: "Expected integer", path, rule: "integer", params: {} });
+      }
+      if (options.min !== undefined && value < options.min) {
+        issues.push({ message: `Must be greater than or equal to ${options.min}`, path, rule: "min", params: { limit: options.min, target: "value" } });
+      }
+      if (options.max !== undefined && value > options.max) {
+        issues.push({ message: `Must be less than or equal to ${options.max}`, path, rule: "max", params: { limit: options.max, target: "value" } });
+      }
+      return value;
+    });
+  },
+
+  /** 불린 */
+  boolean() {
+    return defineSchema<boolean>((value, path, issues) => {
+      if (typeof value !== "boolean") {
+        issues.push({ message: `Expected boolean, received ${describeType(value)}`, path, rule: "type", params: { expected: "boolean", received: describeType(value) } });
+      }
+      return value as boolean;
+    });
+  },
+
+  /** 허용된 값 목록 중 하나 */
+  enum<const Values extends readonly (string | number | boolean)[]>(values: Values) {
+    return defineSchema<Values[number]>((value, path, issues) => {
+      if (!values.includes(value as Values[number])) {
+        const expected = values.map((v) => JSON.stringify(v)).join(", ");
+        issues.push({ message: `Expected one of ${expected}`, path, rule: "enum", params: { values: expected } });
+      }
+      return value as Values[number];
+    });
+  },
+
+  /** multipart/form-data로 업로드된 파일 */
+  file() {
+    return defineSchema<File>((value, path, issues) => {
+      if (!(value instanceof File)) {
+        issues.push({ message: `Expected file, received ${describeType(value)}`, path, rule: "type", params: { expected: "file", received: describeType(value) } });
+      }
+      return value as File;
+    });
+  },
+
+  /** 검증하지 않고 그대로 통과 */
+  any() {
+    return defineSchema<any>((value) => value);
+  },
+
+  /** 배열 */
+  array<T>(item: ParamSchema<T>, options: { min?: number; max?: number } = {}) {
+    return defineSchema<T[]>((value, path, issues) => {
+      if (!Array.isArray(value)) {
+        issues.push({ message: `Expected array, received ${describeType(value)}`, path, rule: "type", params: { expected: "array", received: describeType(value) } });
+        return value as T[];
+      }
+      if (options.min !== undefined && value.length < options.min) {
+        issues.push({ message: `Must contain at least ${options.min} items`, path, rule: "min", params: { limit: options.min, target: "items" } });
+      }
+      if (options.max !== undefined && value.length > options.max) {
+        issues.push({ message: `Must contain at most ${options.max} items`, path, rule: "max", params: { limit: options.max, target: "items" } });
+      }
+      return value.map((element, index) => item.check(element, [...path, index], issues));
+    });
+  },
+
+  /** 객체. shape에 없는 키는 결과에서 제외됩니다. */
+  object<Shape extends ObjectShape>(shape: Shape) {
+    return defineSchema<Simplify<InferShape<Shape>>>((value, path, issues) => {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        issues.push({ message: `Expected object, received ${describeType(value)}`, path, rule: "type", params: { expected: "object", received: describeType(value) } });
+        return value as Simplify<InferShape<Shape>>;
+      }
+      const input = value as Record<string, unknown>;
+      const output: Record<string, unknown> = {};
+      for (const [key, fieldSchema] of Object.entries(shape)) {
+        const fieldValue = input[key];
+        if (isMissing(fieldValue)) {
+          if (!fieldSchema.isOptional) {
+            issues.push({ message: `Required field '${[...path, key].join(".")}' is missing or empty`, path: [...path, key], rule: "required" });
+          }
+          continue;
+        }
+        output[key] = fieldSchema.check(fieldValue, [...path, key], issues);
+      }
+      return output as Simplify<InferShape<Shape>>;
+    });
+  },
+
+  /** 필드 누락(undefined, null, 빈 문자열)을 허용 */
+  optional<T>(inner: ParamSchema<T>) {
+    return defineSchema<T | undefined, true>((value, path, issues) => {
+      if (isMissing(value)) {
+        return undefined;
+      }
+      return inner.check(value, path, issues);
+    }, true);
+  },
+};
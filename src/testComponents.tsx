@@ -44,3 +44,18 @@ export const DetailedErrorPage: FC<{ error: unknown }> = ({ error }) => {
     </html>
   );
 };
+
+export const AsyncErrorPage: FC<{ error: unknown; message: string }> = async ({ message }) => {
+  const support = await Promise.resolve("support@example.com");
+  return (
+    <div>
+      <p>{message}</p>
+      <small>{support}</small>
+    </div>
+  );
+};
+
+export const BrokenAsyncComponent: FC<{ error: unknown }> = async () => {
+  await Promise.resolve();
+  throw new Error("Async render error");
+};
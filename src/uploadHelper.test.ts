@@ -0,0 +1,232 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { createHash } from "node:crypto";
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  detectFileType,
+  checkUploadLimits,
+  assertContentLength,
+  readStreamWithLimit,
+  saveUploadedFiles,
+  withSavedUploads
+} from "./uploadHelper";
+import { StatusError } from "./common";
+
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00]);
+const JPEG_BYTES = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]);
+
+function createStream(chunks: string[]) {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(new TextEncoder().encode(chunk)));
+      controller.close();
+    }
+  });
+}
+
+describe("detectFileType", () => {
+  test("매직 바이트로 형식 판별", () => {
+    expect(detectFileType(PNG_BYTES)).toBe("image/png");
+    expect(detectFileType(JPEG_BYTES)).toBe("image/jpeg");
+    expect(detectFileType(new TextEncoder().encode("%PDF-1.7"))).toBe("application/pdf");
+    expect(detectFileType(new TextEncoder().encode("RIFF1234WEBPVP8"))).toBe("image/webp");
+  });
+
+  test("알 수 없는 형식은 undefined", () => {
+    expect(detectFileType(new TextEncoder().encode("hello"))).toBeUndefined();
+    expect(detectFileType(new Uint8Array())).toBeUndefined();
+  });
+});
+
+describe("assertContentLength", () => {
+  test("Content-Length가 최대 크기를 넘으면 413", () => {
+    expect(() => assertContentLength("2048", 1024)).toThrow("Request body exceeds the maximum size of 1024 bytes");
+    expect(() => assertContentLength("1024", 1024)).not.toThrow();
+    expect(() => assertContentLength(undefined, 1024)).not.toThrow();
+    expect(() => assertContentLength("2048", undefined)).not.toThrow();
+  });
+});
+
+describe("readStreamWithLimit", () => {
+  test("제한 이내의 스트림을 모두 읽음", async () => {
+    const bytes = await readStreamWithLimit(createStream(["ab", "cd"]), 4);
+    expect(new TextDecoder().decode(bytes)).toBe("abcd");
+  });
+
+  test("제한을 넘으면 413 StatusError", async () => {
+    const error = await readStreamWithLimit(createStream(["ab", "cd", "ef"]), 4).catch((e) => e);
+    expect(error).toBeInstanceOf(StatusError);
+    expect(error.status).toBe(413);
+  });
+});
+
+describe("checkUploadLimits", () => {
+  test("제한이 없으면 통과", async () => {
+    const file = new File(["content"], "a.txt", { type: "text/plain" });
+    await expect(checkUploadLimits([["file", file]], {})).resolves.toBeUndefined();
+  });
+
+  test("파일 크기 초과 시 413", async () => {
+    const file = new File(["12345"], "a.txt", { type: "text/plain" });
+    const error = await checkUploadLimits([["file", file]], { maxFileSize: 4 }).catch((e) => e);
+    expect(error.status).toBe(413);
+    expect(error.message).toBe("File 'file' exceeds the maximum size of 4 bytes");
+  });
+
+  test("파일 개수 초과 시 413", async () => {
+    const files: [string, File][] = [1, 2, 3].map((i) => ["files[]", new File([`${i}`], `${i}.txt`)]);
+    const error = await checkUploadLimits(files, { maxFiles: 2 }).catch((e) => e);
+    expect(error.status).toBe(413);
+    expect(error.message).toBe("Too many files: maximum is 2");
+  });
+
+  test("필드와 파일의 합계가 maxBodySize를 넘으면 413", async () => {
+    const error = await checkUploadLimits(
+      [["memo", "12345"], ["file", new File(["12345"], "a.txt")]],
+      { maxBodySize: 8 }
+    ).catch((e) => e);
+    expect(error.status).toBe(413);
+  });
+
+  test("허용되지 않은 MIME 타입은 415", async () => {
+    const file = new File([PNG_BYTES], "a.png", { type: "image/png" });
+    const gif = new File(["GIF89a"], "a.gif", { type: "image/gif" });
+
+    await expect(checkUploadLimits([["file", file]], { allowedTypes: ["image/*"] })).resolves.toBeUndefined();
+    const error = await checkUploadLimits([["file", gif]], { allowedTypes: ["image/png", "image/jpeg"] }).catch((e) => e);
+    expect(error.status).toBe(415);
+    expect(error.message).toBe("File type 'image/gif' is not allowed");
+  });
+
+  test("허용되지 않은 확장자는 415", async () => {
+    const file = new File(["MZ"], "run.exe", { type: "application/octet-stream" });
+    const error = await checkUploadLimits([["file", file]], { allowedExtensions: [".png", "JPG"] }).catch((e) => e);
+    expect(error.status).toBe(415);
+    expect(error.message).toBe("File extension '.exe' is not allowed");
+
+    const photo = new File([JPEG_BYTES], "photo.JPG", { type: "image/jpeg" });
+    await expect(checkUploadLimits([["file", photo]], { allowedExtensions: [".png", "JPG"] })).resolves.toBeUndefined();
+  });
+
+  test("sniff: 선언된 형식과 내용이 다르면 415", async () => {
+    const fake = new File(["<script>"], "a.png", { type: "image/png" });
+    const error = await checkUploadLimits([["avatar", fake]], { sniff: true }).catch((e) => e);
+    expect(error.status).toBe(415);
+    expect(error.message).toBe("File content of 'avatar' does not match declared type 'image/png'");
+
+    const real = new File([PNG_BYTES], "a.png", { type: "image/png" });
+    await expect(checkUploadLimits([["avatar", real]], { sniff: true })).resolves.toBeUndefined();
+  });
+
+  test("sniff: 다른 형식으로 위장한 파일은 실제 형식으로 판단", async () => {
+    const disguised = new File([PNG_BYTES], "a.txt", { type: "text/plain" });
+    const error = await checkUploadLimits([["file", disguised]], { sniff: true, allowedTypes: ["text/plain"] }).catch((e) => e);
+    expect(error.status).toBe(415);
+    expect(error.message).toBe("File type 'image/png' is not allowed");
+  });
+});
+
+describe("saveUploadedFiles", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "honopang-upload-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("중첩된 파일까지 저장하고 메타데이터 반환", async () => {
+    const avatar = new File(["avatar"], "me.PNG", { type: "image/png" });
+    const doc = new File(["doc"], "../../etc/passwd", { type: "text/plain" });
+    const saved = await saveUploadedFiles({ name: "John", avatar, attachments: [doc] }, { dir });
+
+    expect(saved).toHaveLength(2);
+    expect(saved[0]).toMatchObject({ field: "avatar", originalName: "me.PNG", size: 6, type: "image/png" });
+    expect(saved[0]!.fileName).toMatch(/^\d+-[0-9a-f-]{36}\.png$/);
+    expect(saved[0]!.sha256).toBe(createHash("sha256").update("avatar").digest("hex"));
+    expect(await readFile(saved[0]!.path, "utf8")).toBe("avatar");
+
+    expect(saved[1]!.field).toBe("attachments.0");
+    expect(saved[1]!.path.startsWith(dir)).toBe(true);
+    expect(saved[1]!.fileName).not.toContain("/");
+    expect(JSON.parse(JSON.stringify(saved))).toEqual(saved);
+  });
+
+  test("fields와 fileName 옵션", async () => {
+    const a = new File(["a"], "a.txt");
+    const b = new File(["b"], "b.txt");
+    const saved = await saveUploadedFiles({ a, b }, { dir, fields: ["b"], fileName: (file, field) => `${field}-${file.name}` });
+
+    expect(saved.map((file) => file.fileName)).toEqual(["b-b.txt"]);
+    expect(await readdir(dir)).toEqual(["b-b.txt"]);
+  });
+
+  test("저장 디렉터리를 벗어나는 파일명은 거부하고 저장한 파일을 정리", async () => {
+    const a = new File(["a"], "a.txt");
+    const b = new File(["b"], "b.txt");
+    const error = await saveUploadedFiles({ a, b }, {
+      dir,
+      fileName: (file) => (file.name === "b.txt" ? "../b.txt" : file.name)
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(StatusError);
+    expect(await readdir(dir)).toEqual([]);
+  });
+
+  test("같은 이름의 파일이 있으면 실패하고 기존 파일은 유지", async () => {
+    await writeFile(join(dir, "keep.txt"), "original");
+
+    const error = await saveUploadedFiles(
+      { other: new File(["other"], "other.txt"), doc: new File(["hello"], "keep.txt") },
+      { dir, fileName: (file) => file.name }
+    ).catch((e) => e);
+
+    expect(error.code).toBe("EEXIST");
+    expect(await readFile(join(dir, "keep.txt"), "utf8")).toBe("original");
+    expect(await readdir(dir)).toEqual(["keep.txt"]);
+  });
+
+  test("저장 디렉터리가 없으면 500", async () => {
+    const previous = process.env.RAILWAY_VOLUME_MOUNT_PATH;
+    delete process.env.RAILWAY_VOLUME_MOUNT_PATH;
+    try {
+      const error = await saveUploadedFiles({ a: new File(["a"], "a.txt") }).catch((e) => e);
+      expect(error.status).toBe(500);
+    } finally {
+      if (previous !== undefined) {
+        process.env.RAILWAY_VOLUME_MOUNT_PATH = previous;
+      }
+    }
+  });
+});
+
+describe("withSavedUploads", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "honopang-upload-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("handler가 성공하면 파일 유지", async () => {
+    const result = await withSavedUploads({ file: new File(["x"], "x.txt") }, { dir }, async (saved) => saved.length);
+
+    expect(result).toBe(1);
+    expect(await readdir(dir)).toHaveLength(1);
+  });
+
+  test("handler가 실패하면 저장한 파일 삭제 후 에러 전달", async () => {
+    const error = await withSavedUploads({ file: new File(["x"], "x.txt") }, { dir }, async () => {
+      throw new StatusError("DB error", 500);
+    }).catch((e) => e);
+
+    expect(error.message).toBe("DB error");
+    expect(await readdir(dir)).toEqual([]);
+  });
+});
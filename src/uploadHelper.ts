@@ -0,0 +1,362 @@
+import { createHash, randomUUID } from "node:crypto";
+import { mkdir, open, rm } from "node:fs/promises";
+import { dirname, join, resolve } from "node:path";
+import { type MutableObject } from "./common";
+import { createCodedError } from "./errorMessages";
+import { isPlainObject } from "./simpleMethods";
+
+// multipart/form-data 업로드에 대한 크기, 개수, 형식 제한과 저장 유틸리티
+// 제한은 parseParams의 uploads 옵션으로, 저장은 saveUploadedFiles / withSavedUploads로 사용합니다.
+
+/**
+ * 업로드 제한 옵션
+ */
+export type UploadLimits = {
+  /** 요청 본문 최대 크기 (바이트). 초과 시 413 */
+  maxBodySize?: number;
+  /** 파일 하나의 최대 크기 (바이트). 초과 시 413 */
+  maxFileSize?: number;
+  /** 최대 파일 개수. 초과 시 413 */
+  maxFiles?: number;
+  /** 허용할 MIME 타입 목록. "image/*" 같은 와일드카드 지원. 위반 시 415 */
+  allowedTypes?: string[];
+  /** 허용할 확장자 목록 ("png" 또는 ".png"). 위반 시 415 */
+  allowedExtensions?: string[];
+  /** 파일 앞부분의 매직 바이트로 실제 형식을 확인할지 여부 (기본값: false). 선언된 형식과 다르면 415 */
+  sniff?: boolean;
+};
+
+type FileSignature = {
+  type: string;
+  offset: number;
+  bytes: number[];
+};
+
+// 매직 바이트 시그니처 (offset 위치부터 bytes가 일치해야 함)
+const FILE_SIGNATURES: FileSignature[][] = [
+  [{ type: "image/png", offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] }],
+  [{ type: "image/jpeg", offset: 0, bytes: [0xff, 0xd8, 0xff] }],
+  [{ type: "image/gif", offset: 0, bytes: [0x47, 0x49, 0x46, 0x38] }],
+  [
+    { type: "image/webp", offset: 0, bytes: [0x52, 0x49, 0x46, 0x46] },
+    { type: "image/webp", offset: 8, bytes: [0x57, 0x45, 0x42, 0x50] },
+  ],
+  [{ type: "image/bmp", offset: 0, bytes: [0x42, 0x4d] }],
+  [{ type: "application/pdf", offset: 0, bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] }],
+  [{ type: "application/zip", offset: 0, bytes: [0x50, 0x4b, 0x03, 0x04] }],
+  [{ type: "application/gzip", offset: 0, bytes: [0x1f, 0x8b] }],
+  [{ type: "video/mp4", offset: 4, bytes: [0x66, 0x74, 0x79, 0x70] }],
+];
+
+// 매직 바이트로 판별 가능한 MIME 타입
+const SNIFFABLE_TYPES = new Set(FILE_SIGNATURES.map((signatures) => signatures[0]!.type));
+
+// 같은 형식을 가리키는 다른 MIME 이름
+const TYPE_ALIASES: Record<string, string> = {
+  "image/jpg": "image/jpeg",
+  "image/pjpeg": "image/jpeg",
+  "application/x-zip-compressed": "application/zip",
+  "application/x-gzip": "application/gzip",
+};
+
+function normalizeType(type: string): string {
+  const baseType = (type.split(";")[0] || "").trim().toLowerCase();
+  return TYPE_ALIASES[baseType] ?? baseType;
+}
+
+/**
+ * 파일 앞부분의 바이트로 실제 형식을 판별합니다.
+ * @returns 판별된 MIME 타입, 알 수 없으면 undefined
+ */
+export function detectFileType(bytes: Uint8Array): string | undefined {
+  const matched = FILE_SIGNATURES.find((signatures) =>
+    signatures.every(({ offset, bytes: expected }) =>
+      expected.every((byte, index) => bytes[offset + index] === byte)
+    )
+  );
+  return matched?.[0]?.type;
+}
+
+function isTypeAllowed(type: string, allowedTypes: string[]): boolean {
+  return allowedTypes.some((allowed) => {
+    const normalized = normalizeType(allowed);
+    if (normalized.endsWith("/*")) {
+      return type.startsWith(normalized.slice(0, -1));
+    }
+    return type === normalized;
+  });
+}
+
+function getExtension(fileName: string): string {
+  const dotIndex = fileName.lastIndexOf(".");
+  return dotIndex > 0 ? fileName.slice(dotIndex + 1).toLowerCase() : "";
+}
+
+/**
+ * Content-Length 헤더를 기준으로 요청 본문 크기를 확인합니다.
+ * @throws {StatusError} 413 - 본문이 maxBodySize를 초과할 때
+ */
+export function assertContentLength(contentLength: string | undefined, maxBodySize: number | undefined) {
+  if (maxBodySize === undefined || !contentLength) {
+    return;
+  }
+  const length = Number(contentLength);
+  if (Number.isFinite(length) && length > maxBodySize) {
+    throw createCodedError("BODY_TOO_LARGE", 413, { limit: maxBodySize });
+  }
+}
+
+/**
+ * 스트림을 읽으면서 크기를 확인합니다. Content-Length가 없는 chunked 요청도 제한할 수 있습니다.
+ * @throws {StatusError} 413 - 누적 크기가 maxSize를 초과할 때
+ */
+export async function readStreamWithLimit(stream: ReadableStream<Uint8Array>, maxSize: number): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  let totalSize = 0;
+  const reader = stream.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      totalSize += value.byteLength;
+      if (totalSize > maxSize) {
+        await reader.cancel();
+        throw createCodedError("BODY_TOO_LARGE", 413, { limit: maxSize });
+      }
+      chunks.push(value);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  const merged = new Uint8Array(totalSize);
+  let offset = 0;
+  for (const chunk of chunks) {
+    merged.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return merged;
+}
+
+/**
+ * form 엔트리의 파일 크기, 개수, 형식을 검사합니다.
+ * @throws {StatusError} 413 - 크기나 개수 초과, 415 - 허용되지 않는 형식
+ */
+export async function checkUploadLimits(entries: Iterable<[string, unknown]>, limits: UploadLimits): Promise<void> {
+  let fileCount = 0;
+  let totalSize = 0;
+
+  for (const [field, value] of entries) {
+    if (!(value instanceof File)) {
+      totalSize += typeof value === "string" ? new TextEncoder().encode(value).byteLength : 0;
+      continue;
+    }
+
+    fileCount += 1;
+    totalSize += value.size;
+
+    if (limits.maxFiles !== undefined && fileCount > limits.maxFiles) {
+      throw createCodedError("TOO_MANY_FILES", 413, { limit: limits.maxFiles });
+    }
+    if (limits.maxFileSize !== undefined && value.size > limits.maxFileSize) {
+      throw createCodedError("FILE_TOO_LARGE", 413, { field, limit: limits.maxFileSize });
+    }
+    if (limits.maxBodySize !== undefined && totalSize > limits.maxBodySize) {
+      throw createCodedError("BODY_TOO_LARGE", 413, { limit: limits.maxBodySize });
+    }
+
+    if (limits.allowedExtensions) {
+      const extension = getExtension(value.name);
+      const allowedExtensions = limits.allowedExtensions.map((ext) => ext.replace(/^\./, "").toLowerCase());
+      if (!allowedExtensions.includes(extension)) {
+        throw createCodedError("FILE_EXTENSION_NOT_ALLOWED", 415, { extension: extension ? `.${extension}` : "" });
+      }
+    }
+
+    let fileType = normalizeType(value.type || "application/octet-stream");
+    if (limits.sniff) {
+      // 파일 전체를 읽지 않도록 앞부분만 잘라서 읽음 (DOM lib이 없는 Bun 타입에는 Blob.slice가 없어 단언)
+      const head = (value as unknown as { slice(start: number, end: number): Blob }).slice(0, 16);
+      const header = new Uint8Array(await head.arrayBuffer());
+      const detectedType = detectFileType(header);
+      // 판별 가능한 형식으로 선언했는데 내용이 다르면 거부
+      if (SNIFFABLE_TYPES.has(fileType) && detectedType !== fileType) {
+        throw createCodedError("FILE_CONTENT_MISMATCH", 415, { field, type: fileType });
+      }
+      // 다른 형식으로 위장한 파일은 실제 형식으로 허용 여부를 판단 (docx 같은 zip 기반 형식은 선언을 따름)
+      if (detectedType && detectedType !== "application/zip") {
+        fileType = detectedType;
+      }
+    }
+
+    if (limits.allowedTypes && !isTypeAllowed(fileType, limits.allowedTypes)) {
+      throw createCodedError("FILE_TYPE_NOT_ALLOWED", 415, { type: fileType });
+    }
+  }
+
+  if (limits.maxBodySize !== undefined && totalSize > limits.maxBodySize) {
+    throw createCodedError("BODY_TOO_LARGE", 413, { limit: limits.maxBodySize });
+  }
+}
+
+/**
+ * 저장된 업로드 파일의 메타데이터. JSON으로 직렬화되므로 트레이스 로거의 detail에 그대로 넣을 수 있습니다.
+ */
+export type SavedFile = {
+  /** 파일이 들어있던 파라미터 경로 (예: "avatar", "attachments.0") */
+  field: string;
+  /** 클라이언트가 보낸 원본 파일명 */
+  originalName: string;
+  /** 저장된 파일명 */
+  fileName: string;
+  /** 저장된 파일의 절대 경로 */
+  path: string;
+  /** 파일 크기 (바이트) */
+  size: number;
+  /** MIME 타입 */
+  type: string;
+  /** SHA-256 체크섬 (hex) */
+  sha256: string;
+};
+
+/**
+ * 업로드 파일 저장 옵션
+ */
+export type SaveUploadsOptions = {
+  /** 저장할 디렉터리 (기본값: RAILWAY_VOLUME_MOUNT_PATH 환경 변수). 없으면 생성합니다 */
+  dir?: string;
+  /** 저장할 최상위 필드명 목록 (기본값: 모든 파일) */
+  fields?: string[];
+  /** 저장 파일명 생성 함수 (기본값: "<timestamp>-<uuid>.<확장자>") */
+  fileName?: (file: File, field: string) => string;
+};
+
+// 경로 구분자나 상위 디렉터리 참조가 들어가지 않도록 확장자만 안전하게 유지
+function createSafeFileName(file: File): string {
+  const extension = getExtension(file.name);
+  const safeExtension = /^[a-z0-9]{1,10}$/.test(extension) ? `.${extension}` : "";
+  return `${Date.now()}-${randomUUID()}${safeExtension}`;
+}
+
+function collectFiles(value: unknown, field: string, files: [string, File][]) {
+  if (value instanceof File) {
+    files.push([field, value]);
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => collectFiles(item, `${field}.${index}`, files));
+  } else if (isPlainObject(value)) {
+    for (const [key, item] of Object.entries(value as MutableObject)) {
+      collectFiles(item, field ? `${field}.${key}` : key, files);
+    }
+  }
+}
+
+// 파일을 스트림으로 나눠 쓰면서 SHA-256을 계산 (이미 같은 이름이 있으면 실패)
+// 쓰다 만 파일은 직접 만든 경우에만 삭제하여 기존 파일을 지우지 않음
+async function writeFileWithChecksum(file: File, path: string): Promise<string> {
+  const hash = createHash("sha256");
+  const handle = await open(path, "wx");
+  const reader = file.stream().getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      hash.update(value);
+      await handle.write(value);
+    }
+  } catch (error) {
+    reader.releaseLock();
+    await handle.close();
+    await rm(path, { force: true });
+    throw error;
+  }
+  reader.releaseLock();
+  await handle.close();
+  return hash.digest("hex");
+}
+
+/**
+ * parseParams 결과에 들어있는 업로드 파일을 디렉터리(Railway 볼륨 등)에 저장합니다.
+ * 중간에 실패하면 이미 저장한 파일과 쓰다 만 파일을 모두 삭제하고 에러를 던집니다.
+ * @param params - parseParams 결과 (중첩 객체와 배열 안의 파일도 저장)
+ * @param options - 저장 옵션
+ * @returns 저장된 파일 메타데이터 목록
+ * @throws {StatusError} 500 - 저장 디렉터리가 지정되지 않았을 때
+ * @example
+ * const params = await parseParams(c, { uploads: { maxFileSize: 5 * 1024 * 1024 } });
+ * const saved = await saveUploadedFiles(params, { dir: "/data/uploads" });
+ * utils.assignDetail({ uploads: saved });
+ */
+export async function saveUploadedFiles(params: MutableObject, options: SaveUploadsOptions = {}): Promise<SavedFile[]> {
+  const dir = options.dir ?? process.env.RAILWAY_VOLUME_MOUNT_PATH;
+  if (!dir) {
+    throw createCodedError("UPLOAD_DIRECTORY_NOT_CONFIGURED", 500);
+  }
+  const targetDir = resolve(dir);
+  await mkdir(targetDir, { recursive: true });
+
+  const files: [string, File][] = [];
+  for (const [key, value] of Object.entries(params)) {
+    if (!options.fields || options.fields.includes(key)) {
+      collectFiles(value, key, files);
+    }
+  }
+
+  const saved: SavedFile[] = [];
+  try {
+    for (const [field, file] of files) {
+      const fileName = options.fileName ? options.fileName(file, field) : createSafeFileName(file);
+      const path = join(targetDir, fileName);
+      // 사용자 정의 파일명이 저장 디렉터리를 벗어나지 않도록 확인
+      if (dirname(path) !== targetDir) {
+        throw createCodedError("INVALID_FILE_NAME", 500, { fileName });
+      }
+      const sha256 = await writeFileWithChecksum(file, path);
+      saved.push({
+        field,
+        originalName: file.name,
+        fileName,
+        path,
+        size: file.size,
+        type: file.type,
+        sha256,
+      });
+    }
+  } catch (error) {
+    await removeSavedFiles(saved);
+    throw error;
+  }
+  return saved;
+}
+
+/**
+ * 저장된 파일들을 삭제합니다. 이미 없는 파일은 무시합니다.
+ */
+export async function removeSavedFiles(files: SavedFile[]): Promise<void> {
+  await Promise.all(files.map((file) => rm(file.path, { force: true })));
+}
+
+/**
+ * 업로드 파일을 저장한 뒤 handler를 실행합니다. handler가 에러를 던지면 저장한 파일을 삭제하고 에러를 다시 던집니다.
+ * @example
+ * return withSavedUploads(params, { dir: "/data/uploads" }, async (saved) => {
+ *   await db.insert({ files: saved });
+ *   return c.json({ files: saved });
+ * });
+ */
+export async function withSavedUploads<T>(
+  params: MutableObject,
+  options: SaveUploadsOptions,
+  handler: (files: SavedFile[]) => T | Promise<T>
+): Promise<T> {
+  const saved = await saveUploadedFiles(params, options);
+  try {
+    return await handler(saved);
+  } catch (error) {
+    await removeSavedFiles(saved);
+    throw error;
+  }
+}